@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { GraphEditor, type GraphEditorConfig } from "./GraphEditor";
+import { MiniMap } from "./components/MiniMap";
 import { type Graph } from "./types/graph";
 import "./App.css";
 
@@ -147,7 +148,9 @@ function App() {
 
       <div className="main-content">
         <div className="graph-container">
-          <GraphEditor config={config} />
+          <GraphEditor config={config}>
+            <MiniMap />
+          </GraphEditor>
         </div>
 
         <div className="graph-json-viewer">
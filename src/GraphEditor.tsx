@@ -4,62 +4,266 @@ import {
   useState,
   useRef,
   useMemo,
+  useImperativeHandle,
+  useContext,
+  forwardRef,
   type FunctionComponent,
+  type ReactNode,
+  type Ref,
 } from "react";
 import { ThemeProvider } from "styled-components";
-import { defaultTheme, type Theme } from "./types/theme";
+import { createTheme, type Theme } from "./types/theme";
 import { GraphCanvas } from "./components/GraphCanvas";
 import { NodeCard } from "./components/NodeCard";
+import { GroupLayer } from "./components/GroupLayer";
+import { NoteLayer } from "./components/NoteLayer";
 import { EdgeLayer } from "./components/EdgeLayer";
+import { PayloadEditor } from "./components/PayloadEditor";
 import {
   useNodes,
+  useEdges,
   useViewState,
   useContextMenuState,
   useConnectionState,
   useSetInitialGraph,
+  useSyncGraph,
+  useApplyChanges,
   useAddNode,
   useUpdateNode,
-  useDuplicateNode,
-  useDisconnectAllFromNode,
+  useSelectedNodeIds,
+  useDuplicateNodes,
+  useDisconnectAllFromNodes,
+  useRemoveNodes,
+  useMoveNodes,
+  usePasteSubgraph,
+  useAutoLayout,
+  useGroups,
+  useGroupNodes,
+  useAddNote,
+  useFitView,
+  useFitSelection,
+  useSelectedEdge,
+  useUpdateEdge,
+  useRemoveEdgeById,
   useRemoveNodeById,
+  useAddEdge,
+  useSetSelectedNodes,
+  useUpdateViewState,
   useSetZoom,
   useUpdateConnectionPosition,
   useCancelConnection,
   useShowContextMenu,
   useHideContextMenu,
+  useViewportSize,
+  useSetViewportSize,
   useSetNodeTypeConfigMap,
+  useSetPortCompatibility,
   useSetOnGraphChange,
   useSetOnNodeChange,
-  useGraphStore,
+  useSetOnEdgeChange,
+  useSetOnChanges,
+  useSetControlled,
+  useSetReadOnly,
+  useSetSnapOptions,
+  useIsExecuting,
+  useStartExecution,
+  useCancelExecution,
+  useSetDiagnostics,
+  useUndo,
+  useRedo,
+  useSetHistoryLimit,
+  useGraphStoreApi,
+  GraphStoreContext,
 } from "./stores/graphStore";
-import { CanvasContextMenu, NodeContextMenu } from "./components/ContextMenu";
+import { GraphStoreProvider } from "./stores/GraphStoreProvider";
+import {
+  CanvasContextMenu,
+  EdgeContextMenu,
+  NodeContextMenu,
+} from "./components/ContextMenu";
 import type {
   CanvasContextMenuItem,
   ContextMenuItem,
   Edge,
   Node,
+  NodeType,
   Graph,
   NodeTypeConfig,
+  PortCompatibility,
+  EdgePathStyle,
+  Position,
+  ViewState,
+  GraphChange,
+  GraphDiagnostic,
+  NodeRunState,
 } from "./types/graph";
-import { validateGraphWithNodeTypes } from "./utils/graph";
+import type {
+  EdgeComponent,
+  EdgeRenderer,
+  NodeComponent,
+  NodeRenderer,
+} from "./types/components";
+import type { ExecutionResult } from "./utils/execution";
+import {
+  DEFAULT_VALIDATION_RULES,
+  validateGraph,
+  type ValidationRule,
+} from "./utils/validation";
+import {
+  serializeSubgraph,
+  writeClipboardData,
+  readClipboardData,
+  setClipboardEventData,
+  getClipboardEventData,
+} from "./utils/clipboard";
+import type { LayoutOptions } from "./utils/layout";
+import {
+  DEFAULT_KEYMAP,
+  getKeyAction,
+  type KeyAction,
+  type Keymap,
+} from "./utils/keymap";
+import { DEFAULT_SNAP_OPTIONS } from "./utils/snap";
+import { getCollapsedGroupsByNodeId, getVisibleNodes } from "./utils/groups";
+import {
+  MAX_ZOOM,
+  MIN_ZOOM,
+  clampZoom,
+  type ViewportOptions,
+} from "./utils/viewport";
+
+// Keyboard and clipboard shortcuts are left to text inputs
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    target.tagName === "INPUT" ||
+    target.tagName === "TEXTAREA" ||
+    target.tagName === "SELECT");
+
+// Shortcuts that don't edit the graph, the only ones left when read-only
+const READ_ONLY_ACTIONS = new Set<KeyAction>([
+  "cancel",
+  "selectAll",
+  "zoomIn",
+  "zoomOut",
+  "resetZoom",
+]);
+
+const NUDGE_STEP = 5;
+const LARGE_NUDGE_STEP = 20;
+
 export interface GraphEditorConfig {
   nodeTypes: NodeTypeConfig[];
+  /** Allowed connections between ports of different data types */
+  portCompatibility?: PortCompatibility;
+  /** Custom node content keyed by node type, replacing the header and body */
+  nodeComponents?: Record<string, NodeComponent>;
+  /** Custom node content for any type without an entry in nodeComponents */
+  renderNode?: NodeRenderer;
+  /** Path style of every edge without its own pathStyle (default: "bezier") */
+  edgePathStyle?: EdgePathStyle;
+  /** Custom SVG edge components keyed by edge type */
+  edgeComponents?: Record<string, EdgeComponent>;
+  /** Custom SVG for any edge without an entry in edgeComponents */
+  renderEdge?: EdgeRenderer;
   canvasContextMenuItems?: CanvasContextMenuItem[];
   defaultNodeContextMenuItems?: ContextMenuItem[];
+  defaultEdgeContextMenuItems?: ContextMenuItem[];
   theme?: Partial<Theme>;
   width?: number | string;
   height?: number | string;
   graph?: Graph;
+  /**
+   * "controlled" only proposes edits through onChanges. They show up once
+   * the host passes the updated graph back in (default: "uncontrolled")
+   */
+  mode?: "controlled" | "uncontrolled";
+  /** Turns off every edit by the user, keeping pan, zoom and selection */
+  readOnly?: boolean;
+  /** Maximum number of undo steps kept in history (default: 100) */
+  historyLimit?: number;
+  /** Options of the "Auto Layout" canvas menu item */
+  layoutOptions?: LayoutOptions;
+  /** Snaps dragged nodes to the background grid (default: false) */
+  snapToGrid?: boolean;
+  /** Grid spacing in canvas pixels (default: 20) */
+  gridSize?: number;
+  /** Shows guides and snaps to other nodes while dragging (default: true) */
+  alignmentGuides?: boolean;
+  /** Screen pixels within which nodes snap to a guide (default: 6) */
+  snapThreshold?: number;
+  /** Overrides of the default shortcuts, null disables one */
+  keymap?: Partial<Keymap>;
+  /** Checks run after the built-in ones, e.g. domain-specific limits */
+  validationRules?: ValidationRule[];
+  /** Ids of built-in rules to skip, e.g. ["orphan-node"] */
+  disabledValidationRules?: string[];
+  /** Fits config.graph into view when it is first loaded */
+  fitViewOnInit?: boolean | ViewportOptions;
   onNodeChange?: (
     nodeId: string,
     changeType: "title" | "payload" | "position",
     data?: unknown
   ) => void | Promise<void>;
+  onEdgeChange?: (
+    edgeId: string,
+    changeType: "label" | "payload",
+    data?: unknown
+  ) => void | Promise<void>;
   onGraphChange?: (
     graph: Graph,
     node?: Node,
     edges?: Edge[]
   ) => void | Promise<void>;
+  /** Typed changes of every edit, for incremental sync with a backend */
+  onChanges?: (changes: GraphChange[]) => void | Promise<void>;
+  /** Nodes running at the same time when the graph is executed (default: 4) */
+  executionConcurrency?: number;
+  /** Result of every run, including those started from the menus */
+  onExecutionComplete?: (result: ExecutionResult) => void;
+}
+
+/** Imperative API for toolbars and shortcuts outside the editor */
+export interface GraphEditorHandle {
+  addNode: (
+    type: NodeType,
+    position: Position,
+    options?: { title?: string; payload?: Record<string, unknown> }
+  ) => Node;
+  removeNode: (nodeId: string) => void;
+  updateNode: (
+    nodeId: string,
+    updates: Partial<Pick<Node, "title" | "payload" | "position">>
+  ) => void;
+  /** Returns the new edge, or null when the connection is not allowed */
+  connect: (
+    sourceNodeId: string,
+    targetNodeId: string,
+    ports?: { sourcePortId?: string; targetPortId?: string }
+  ) => Edge | null;
+  disconnect: (edgeId: string) => void;
+  getGraph: () => Graph;
+  /** Problems found by the validation rules in the current graph */
+  getDiagnostics: () => GraphDiagnostic[];
+  /** Applies changes from elsewhere without reporting them back */
+  applyChanges: (changes: GraphChange[]) => void;
+  setViewport: (viewState: Partial<ViewState>) => void;
+  fitView: (options?: ViewportOptions) => void;
+  /** Replaces the node selection, an empty list clears it */
+  select: (nodeIds: string[]) => void;
+  /**
+   * Runs the graph, or only the given nodes and those downstream of them.
+   * Nodes unchanged since an earlier run reuse its outputs
+   */
+  execute: (nodeIds?: string[]) => Promise<ExecutionResult>;
+  cancelExecution: () => void;
+  /** Merges run states shown on the nodes, null or "idle" clears one */
+  setNodeRunStates: (updates: Record<string, NodeRunState | null>) => void;
+  clearNodeRunStates: () => void;
+  /** Converts client (e.g. mouse event) coordinates to canvas coordinates */
+  screenToWorld: (position: Position) => Position;
+  /** Converts canvas coordinates to client coordinates */
+  worldToScreen: (position: Position) => Position;
 }
 
 export interface GraphEditorProps {
@@ -67,35 +271,80 @@ export interface GraphEditorProps {
   container?: HTMLElement;
   width?: number | string;
   height?: number | string;
+  /** Overlays such as <MiniMap>, rendered above the canvas */
+  children?: ReactNode;
 }
 
-export const GraphEditor: FunctionComponent<GraphEditorProps> = ({
+// The handle ref is passed under its own name, React 18 strips `ref` props
+interface GraphEditorContentProps extends GraphEditorProps {
+  handleRef?: Ref<GraphEditorHandle>;
+}
+
+const GraphEditorContent: FunctionComponent<GraphEditorContentProps> = ({
   config,
   width = "100%",
   height = "100%",
+  children,
+  handleRef,
 }) => {
+  const store = useGraphStoreApi();
   const nodes = useNodes();
+  const edges = useEdges();
   const viewState = useViewState();
   const connectionState = useConnectionState();
   const contextMenuState = useContextMenuState();
 
   const setInitialGraph = useSetInitialGraph();
+  const syncGraph = useSyncGraph();
+  const applyChanges = useApplyChanges();
   const addNode = useAddNode();
   const updateNode = useUpdateNode();
-  const duplicateNode = useDuplicateNode();
-  const disconnectAllFromNode = useDisconnectAllFromNode();
+  const selectedNodeIds = useSelectedNodeIds();
+  const duplicateNodes = useDuplicateNodes();
+  const disconnectAllFromNodes = useDisconnectAllFromNodes();
+  const removeNodes = useRemoveNodes();
+  const moveNodes = useMoveNodes();
+  const pasteSubgraph = usePasteSubgraph();
+  const autoLayout = useAutoLayout();
+  const groups = useGroups();
+  const groupNodes = useGroupNodes();
+  const addNote = useAddNote();
+  const fitView = useFitView();
+  const fitSelection = useFitSelection();
+  const selectedEdgeId = useSelectedEdge();
+  const updateEdge = useUpdateEdge();
+  const removeEdgeById = useRemoveEdgeById();
   const removeNodeById = useRemoveNodeById();
+  const addEdge = useAddEdge();
+  const setSelectedNodes = useSetSelectedNodes();
+  const updateViewState = useUpdateViewState();
   const setZoom = useSetZoom();
   const updateConnectionPosition = useUpdateConnectionPosition();
   const cancelConnection = useCancelConnection();
   const showContextMenu = useShowContextMenu();
   const hideContextMenu = useHideContextMenu();
   const setNodeTypeConfigMap = useSetNodeTypeConfigMap();
+  const setPortCompatibility = useSetPortCompatibility();
   const setOnGraphChange = useSetOnGraphChange();
   const setOnNodeChange = useSetOnNodeChange();
+  const setOnEdgeChange = useSetOnEdgeChange();
+  const setOnChanges = useSetOnChanges();
+  const setControlled = useSetControlled();
+  const setReadOnly = useSetReadOnly();
+  const undo = useUndo();
+  const redo = useRedo();
+  const setHistoryLimit = useSetHistoryLimit();
+  const setSnapOptions = useSetSnapOptions();
+  const isExecuting = useIsExecuting();
+  const startExecution = useStartExecution();
+  const cancelExecution = useCancelExecution();
+  const setDiagnostics = useSetDiagnostics();
 
-  const [canvasSize, setCanvasSize] = useState({ width: 800, height: 600 });
+  const canvasSize = useViewportSize();
+  const setViewportSize = useSetViewportSize();
   const containerRef = useRef<HTMLDivElement>(null);
+  // Node whose properties form is open
+  const [editingNodeId, setEditingNodeId] = useState<string | null>(null);
   const [currentMousePosition, setCurrentMousePosition] = useState<{
     x: number;
     y: number;
@@ -113,11 +362,89 @@ export const GraphEditor: FunctionComponent<GraphEditorProps> = ({
     setNodeTypeConfigMap(nodeTypeConfigMap);
   }, [nodeTypeConfigMap, setNodeTypeConfigMap]);
 
+  const controlled = config.mode === "controlled";
+  const canBeControlled = Boolean(config.graph && config.onChanges);
+  useEffect(() => {
+    if (controlled && !canBeControlled) {
+      console.warn("Controlled mode needs both config.graph and onChanges");
+    }
+    setControlled(controlled);
+  }, [controlled, canBeControlled, setControlled]);
+
+  const readOnly = Boolean(config.readOnly);
+  useEffect(() => {
+    setReadOnly(readOnly);
+  }, [readOnly, setReadOnly]);
+
+  useEffect(() => {
+    setPortCompatibility(config.portCompatibility);
+  }, [config.portCompatibility, setPortCompatibility]);
+
+  useEffect(() => {
+    if (config.historyLimit !== undefined) {
+      setHistoryLimit(config.historyLimit);
+    }
+  }, [config.historyLimit, setHistoryLimit]);
+
+  useEffect(() => {
+    setSnapOptions({
+      snapToGrid: config.snapToGrid ?? DEFAULT_SNAP_OPTIONS.snapToGrid,
+      gridSize: config.gridSize ?? DEFAULT_SNAP_OPTIONS.gridSize,
+      alignmentGuides:
+        config.alignmentGuides ?? DEFAULT_SNAP_OPTIONS.alignmentGuides,
+      snapThreshold: config.snapThreshold ?? DEFAULT_SNAP_OPTIONS.snapThreshold,
+    });
+  }, [
+    config.snapToGrid,
+    config.gridSize,
+    config.alignmentGuides,
+    config.snapThreshold,
+    setSnapOptions,
+  ]);
+
+  const copyNodes = useCallback(
+    (nodeIds: string[]) => {
+      const { graph } = store.getState();
+      return writeClipboardData(serializeSubgraph(nodeIds, graph));
+    },
+    [store]
+  );
+
+  const cutNodes = useCallback(
+    async (nodeIds: string[]) => {
+      await copyNodes(nodeIds);
+      removeNodes(nodeIds);
+    },
+    [copyNodes, removeNodes]
+  );
+
+  const canExecute = config.nodeTypes.some((nodeType) => nodeType.execute);
+  const onExecutionCompleteRef = useRef(config.onExecutionComplete);
+  useEffect(() => {
+    onExecutionCompleteRef.current = config.onExecutionComplete;
+  }, [config.onExecutionComplete]);
+
+  const execute = useCallback(
+    async (nodeIds?: string[]) => {
+      const result = await startExecution({
+        nodeIds,
+        concurrency: config.executionConcurrency,
+      });
+      onExecutionCompleteRef.current?.(result);
+      return result;
+    },
+    [startExecution, config.executionConcurrency]
+  );
+
   const nodeContextMenuItems = useMemo((): ContextMenuItem[] => {
     if (config.defaultNodeContextMenuItems) {
       return config.defaultNodeContextMenuItems;
     }
 
+    // Bulk actions apply to the whole selection when the node is part of it
+    const getTargetNodeIds = (id: string) =>
+      selectedNodeIds.has(id) ? [...selectedNodeIds] : [id];
+
     return [
       {
         id: "edit-title",
@@ -154,23 +481,7 @@ export const GraphEditor: FunctionComponent<GraphEditorProps> = ({
               await result;
             }
           } else {
-            const node = nodes.find((n) => n.id === id);
-            if (node) {
-              const payloadStr = JSON.stringify(node.payload, null, 2);
-              const newPayloadStr = prompt(
-                "Edit properties in JSON format:",
-                payloadStr
-              );
-              if (newPayloadStr !== null) {
-                try {
-                  const newPayload = JSON.parse(newPayloadStr);
-                  updateNode(id, { payload: newPayload });
-                } catch (error) {
-                  console.error(error);
-                  alert("Invalid JSON format.");
-                }
-              }
-            }
+            setEditingNodeId(id);
           }
         },
       },
@@ -183,7 +494,17 @@ export const GraphEditor: FunctionComponent<GraphEditorProps> = ({
       {
         id: "duplicate",
         label: "Duplicate",
-        onClick: (id: string) => duplicateNode(id),
+        onClick: (id: string) => duplicateNodes(getTargetNodeIds(id)),
+      },
+      {
+        id: "copy",
+        label: "Copy",
+        onClick: (id: string) => copyNodes(getTargetNodeIds(id)),
+      },
+      {
+        id: "cut",
+        label: "Cut",
+        onClick: (id: string) => cutNodes(getTargetNodeIds(id)),
       },
       {
         id: "separator2",
@@ -191,10 +512,24 @@ export const GraphEditor: FunctionComponent<GraphEditorProps> = ({
         separator: true,
         onClick: () => {},
       },
+      {
+        id: "group",
+        label: "Group",
+        onClick: (id: string) => groupNodes(getTargetNodeIds(id)),
+      },
+      ...(canExecute
+        ? [
+            {
+              id: "run-from-here",
+              label: "Run From Here",
+              onClick: (id: string) => execute(getTargetNodeIds(id)),
+            },
+          ]
+        : []),
       {
         id: "disconnect",
         label: "Disconnect All",
-        onClick: (id: string) => disconnectAllFromNode(id),
+        onClick: (id: string) => disconnectAllFromNodes(getTargetNodeIds(id)),
       },
       {
         id: "separator3",
@@ -205,18 +540,96 @@ export const GraphEditor: FunctionComponent<GraphEditorProps> = ({
       {
         id: "delete",
         label: "Delete",
-        onClick: (id: string) => removeNodeById(id),
+        onClick: (id: string) => removeNodes(getTargetNodeIds(id)),
       },
     ];
   }, [
     config.defaultNodeContextMenuItems,
     nodes,
+    selectedNodeIds,
     updateNode,
-    duplicateNode,
-    disconnectAllFromNode,
-    removeNodeById,
+    duplicateNodes,
+    copyNodes,
+    cutNodes,
+    groupNodes,
+    canExecute,
+    execute,
+    disconnectAllFromNodes,
+    removeNodes,
   ]);
 
+  const edgeContextMenuItems = useMemo((): ContextMenuItem[] => {
+    if (config.defaultEdgeContextMenuItems) {
+      return config.defaultEdgeContextMenuItems;
+    }
+
+    return [
+      {
+        id: "edit-label",
+        label: "Edit Label",
+        onClick: async (id: string) => {
+          if (onEdgeChangeRef.current) {
+            const result = onEdgeChangeRef.current(id, "label");
+            if (result instanceof Promise) {
+              await result;
+            }
+          } else {
+            const edge = edges.find((e) => e.id === id);
+            if (edge) {
+              const newLabel = prompt("Enter label:", edge.label ?? "");
+              if (newLabel !== null) {
+                updateEdge(id, { label: newLabel.trim() });
+              }
+            }
+          }
+        },
+      },
+      {
+        id: "edit-payload",
+        label: "Edit Properties",
+        onClick: async (id: string) => {
+          const edge = edges.find((e) => e.id === id);
+          if (onEdgeChangeRef.current) {
+            const result = onEdgeChangeRef.current(
+              id,
+              "payload",
+              edge?.payload
+            );
+            if (result instanceof Promise) {
+              await result;
+            }
+          } else if (edge) {
+            const payloadStr = JSON.stringify(edge.payload ?? {}, null, 2);
+            const newPayloadStr = prompt(
+              "Edit properties in JSON format:",
+              payloadStr
+            );
+            if (newPayloadStr !== null) {
+              try {
+                const newPayload = JSON.parse(newPayloadStr);
+                updateEdge(id, { payload: newPayload });
+              } catch (error) {
+                console.error(error);
+                alert("Invalid JSON format.");
+              }
+            }
+          }
+        },
+      },
+      {
+        id: "separator1",
+        label: "",
+        separator: true,
+        onClick: () => {},
+      },
+      {
+        id: "delete",
+        label: "Delete",
+        onClick: (id: string) => removeEdgeById(id),
+      },
+    ];
+  }, [config.defaultEdgeContextMenuItems, edges, updateEdge, removeEdgeById]);
+
   const canvasContextMenuItems = useMemo((): CanvasContextMenuItem[] => {
     if (config.canvasContextMenuItems) {
       return config.canvasContextMenuItems;
@@ -227,12 +640,7 @@ export const GraphEditor: FunctionComponent<GraphEditorProps> = ({
         id: `add-${nodeType.id}`,
         label: nodeType.label,
         onClick: (position) => {
-          addNode(nodeType.id, position, {
-            title: nodeType.label,
-            ...(nodeType.allowMultipleInputs !== undefined && {
-              allowMultipleInputs: nodeType.allowMultipleInputs,
-            }),
-          });
+          addNode(nodeType.id, position, { title: nodeType.label });
         },
       })
     );
@@ -243,7 +651,7 @@ export const GraphEditor: FunctionComponent<GraphEditorProps> = ({
         label: "Zoom In",
         onClick: () => {
           const currentZoom = viewState.zoom;
-          setZoom(Math.min(2.0, currentZoom * 1.25));
+          setZoom(Math.min(MAX_ZOOM, currentZoom * 1.25));
         },
       },
       {
@@ -251,7 +659,7 @@ export const GraphEditor: FunctionComponent<GraphEditorProps> = ({
         label: "Zoom Out",
         onClick: () => {
           const currentZoom = viewState.zoom;
-          setZoom(Math.max(0.5, currentZoom * 0.8));
+          setZoom(Math.max(MIN_ZOOM, currentZoom * 0.8));
         },
       },
       {
@@ -259,6 +667,16 @@ export const GraphEditor: FunctionComponent<GraphEditorProps> = ({
         label: "100%",
         onClick: () => setZoom(1.0),
       },
+      {
+        id: "fit-view",
+        label: "Fit View",
+        onClick: () => fitView(),
+      },
+      {
+        id: "fit-selection",
+        label: "Fit Selection",
+        onClick: () => fitSelection(),
+      },
     ];
 
     return [
@@ -267,6 +685,56 @@ export const GraphEditor: FunctionComponent<GraphEditorProps> = ({
         label: "Add Node",
         submenu: nodeTypeSubmenu,
       },
+      {
+        id: "add-note",
+        label: "Add Note",
+        onClick: (position) => addNote(position),
+      },
+      {
+        id: "paste",
+        label: "Paste",
+        onClick: async (position) => {
+          const data = await readClipboardData();
+          if (data) {
+            pasteSubgraph(data, position);
+          }
+        },
+      },
+      {
+        id: "auto-layout",
+        label: "Auto Layout",
+        onClick: () => {
+          // Lays out the selection when there is one, otherwise the whole graph
+          const { selectedNodeIds } = store.getState();
+          autoLayout(
+            config.layoutOptions,
+            selectedNodeIds.size > 1 ? [...selectedNodeIds] : undefined
+          );
+        },
+      },
+      {
+        id: "group-selection",
+        label: "Group Selection",
+        onClick: () => {
+          const { selectedNodeIds } = store.getState();
+          groupNodes([...selectedNodeIds]);
+        },
+      },
+      ...(canExecute
+        ? [
+            isExecuting
+              ? {
+                  id: "cancel-run",
+                  label: "Cancel Run",
+                  onClick: () => cancelExecution(),
+                }
+              : {
+                  id: "run-graph",
+                  label: "Run Graph",
+                  onClick: () => execute(),
+                },
+          ]
+        : []),
       {
         id: "separator1",
         label: "",
@@ -275,76 +743,107 @@ export const GraphEditor: FunctionComponent<GraphEditorProps> = ({
       ...zoomItems,
     ];
   }, [
+    store,
     config.canvasContextMenuItems,
     config.nodeTypes,
+    config.layoutOptions,
     addNode,
+    addNote,
+    pasteSubgraph,
+    autoLayout,
+    groupNodes,
+    canExecute,
+    isExecuting,
+    execute,
+    cancelExecution,
+    fitView,
+    fitSelection,
     setZoom,
     viewState.zoom,
   ]);
 
-  const theme = useMemo(() => {
-    const nodeTypeColors: Record<string, string> = {};
-    config.nodeTypes.forEach((nodeType) => {
-      nodeTypeColors[nodeType.id] = nodeType.color;
-    });
+  const visibleNodes = useMemo(
+    () => getVisibleNodes(nodes, groups),
+    [nodes, groups]
+  );
 
-    return {
-      ...defaultTheme,
-      ...config.theme,
-      colors: {
-        ...defaultTheme.colors,
-        ...config.theme?.colors,
-        ...nodeTypeColors,
-      },
-    };
-  }, [config.nodeTypes, config.theme]);
+  const theme = useMemo(
+    () => createTheme(config.nodeTypes, config.theme),
+    [config.nodeTypes, config.theme]
+  );
 
   const onGraphChangeRef = useRef(config.onGraphChange);
   const onNodeChangeRef = useRef(config.onNodeChange);
+  const onEdgeChangeRef = useRef(config.onEdgeChange);
+  const onChangesRef = useRef(config.onChanges);
 
   const isFirstRender = useRef(true);
+  // Only read for the first graph, so later changes don't refit the view
+  const fitViewOnInitRef = useRef(config.fitViewOnInit);
 
+  // Measured before the graph is loaded so fitViewOnInit uses the real size
   useEffect(() => {
-    if (config.graph) {
-      const validation = validateGraphWithNodeTypes(config.graph, config.nodeTypes);
-      if (!validation.valid) {
-        console.error("Graph validation failed:", validation.errors);
-        throw new Error(`Graph validation failed: ${validation.errors.join(', ')}`);
+    const updateSize = () => {
+      if (containerRef.current) {
+        const rect = containerRef.current.getBoundingClientRect();
+        setViewportSize({ width: rect.width, height: rect.height });
       }
+    };
 
+    updateSize();
+    window.addEventListener("resize", updateSize);
+    return () => window.removeEventListener("resize", updateSize);
+  }, [setViewportSize]);
+
+  useEffect(() => {
+    if (config.graph) {
       if (isFirstRender.current) {
         setInitialGraph(config.graph);
         isFirstRender.current = false;
+
+        const fitViewOnInit = fitViewOnInitRef.current;
+        if (fitViewOnInit) {
+          fitView({
+            duration: 0,
+            ...(fitViewOnInit === true ? {} : fitViewOnInit),
+          });
+        }
       } else {
         // Update only nodes and edges, preserve viewState and UI state
-        const currentState = useGraphStore.getState();
-        useGraphStore.setState({
-          graph: {
-            ...config.graph,
-            viewState: currentState.graph?.viewState,
-          },
-        });
+        syncGraph(config.graph);
       }
     }
-  }, [config.graph, setInitialGraph, config.nodeTypes]);
+  }, [config.graph, setInitialGraph, syncGraph, fitView]);
 
-  useEffect(() => {
-    const updateSize = () => {
-      if (containerRef.current) {
-        const rect = containerRef.current.getBoundingClientRect();
-        setCanvasSize({ width: rect.width, height: rect.height });
-      }
-    };
+  const { validationRules, disabledValidationRules } = config;
+  const rules = useMemo(
+    () => [
+      ...DEFAULT_VALIDATION_RULES.filter(
+        (rule) => !disabledValidationRules?.includes(rule.id)
+      ),
+      ...(validationRules ?? []),
+    ],
+    [validationRules, disabledValidationRules]
+  );
 
-    updateSize();
-    window.addEventListener("resize", updateSize);
-    return () => window.removeEventListener("resize", updateSize);
-  }, []);
+  // Problems are shown on the canvas instead of rejecting the graph
+  useEffect(() => {
+    setDiagnostics(
+      validateGraph(store.getState().graph, nodeTypeConfigMap, rules)
+    );
+  }, [nodes, edges, nodeTypeConfigMap, rules, store, setDiagnostics]);
 
   useEffect(() => {
     onGraphChangeRef.current = config.onGraphChange;
     onNodeChangeRef.current = config.onNodeChange;
-  }, [config.onGraphChange, config.onNodeChange]);
+    onEdgeChangeRef.current = config.onEdgeChange;
+    onChangesRef.current = config.onChanges;
+  }, [
+    config.onGraphChange,
+    config.onNodeChange,
+    config.onEdgeChange,
+    config.onChanges,
+  ]);
 
   useEffect(() => {
     setOnGraphChange((graph, node, edges) => {
@@ -368,7 +867,20 @@ export const GraphEditor: FunctionComponent<GraphEditorProps> = ({
         }
       }
     });
-  }, [setOnGraphChange, setOnNodeChange]);
+
+    setOnEdgeChange((edgeId, changeType, data) => {
+      if (onEdgeChangeRef.current) {
+        const result = onEdgeChangeRef.current(edgeId, changeType, data);
+        if (result instanceof Promise) {
+          result.catch((error) => {
+            console.error("Edge change callback error:", error);
+          });
+        }
+      }
+    });
+
+    setOnChanges((changes) => onChangesRef.current?.(changes));
+  }, [setOnGraphChange, setOnNodeChange, setOnEdgeChange, setOnChanges]);
 
   const screenToWorldPosition = useCallback(
     (screenX: number, screenY: number) => {
@@ -423,24 +935,210 @@ export const GraphEditor: FunctionComponent<GraphEditorProps> = ({
     updateConnectionPosition,
   ]);
 
+  const keymap = useMemo(
+    (): Keymap => ({ ...DEFAULT_KEYMAP, ...config.keymap }),
+    [config.keymap]
+  );
+
+  const nudgeSelection = useCallback(
+    (dx: number, dy: number) => {
+      const { graph, selectedNodeIds } = store.getState();
+      const positions: Record<string, Position> = {};
+      graph.nodes.forEach((node) => {
+        if (selectedNodeIds.has(node.id)) {
+          positions[node.id] = {
+            x: node.position.x + dx,
+            y: node.position.y + dy,
+          };
+        }
+      });
+      if (Object.keys(positions).length > 0) {
+        moveNodes(positions);
+      }
+    },
+    [store, moveNodes]
+  );
+
   const handleKeyDown = useCallback(
-    (e: KeyboardEvent) => {
-      if (e.key === "Escape" && connectionState.isConnecting) {
-        cancelConnection();
+    (e: React.KeyboardEvent) => {
+      const action = getKeyAction(e, keymap);
+      if (!action || (readOnly && !READ_ONLY_ACTIONS.has(action))) return;
+
+      // Escape still cancels a connection dragged from a text field
+      if (action !== "cancel" && isEditableTarget(e.target)) return;
+
+      const { selectedNodeIds, graph } = store.getState();
+      e.preventDefault();
+
+      switch (action) {
+        case "cancel":
+          if (connectionState.isConnecting) {
+            cancelConnection();
+          } else {
+            setSelectedNodes([]);
+          }
+          break;
+        case "delete":
+          if (selectedEdgeId) {
+            removeEdgeById(selectedEdgeId);
+          } else if (selectedNodeIds.size > 0) {
+            removeNodes([...selectedNodeIds]);
+          }
+          break;
+        case "duplicate":
+          if (selectedNodeIds.size > 0) {
+            duplicateNodes([...selectedNodeIds]);
+          }
+          break;
+        case "selectAll": {
+          const hiddenNodes = getCollapsedGroupsByNodeId(graph.groups);
+          setSelectedNodes(
+            graph.nodes
+              .filter((node) => !hiddenNodes.has(node.id))
+              .map((node) => node.id)
+          );
+          break;
+        }
+        case "undo":
+          undo();
+          break;
+        case "redo":
+          redo();
+          break;
+        case "nudgeUp":
+          nudgeSelection(0, -NUDGE_STEP);
+          break;
+        case "nudgeDown":
+          nudgeSelection(0, NUDGE_STEP);
+          break;
+        case "nudgeLeft":
+          nudgeSelection(-NUDGE_STEP, 0);
+          break;
+        case "nudgeRight":
+          nudgeSelection(NUDGE_STEP, 0);
+          break;
+        case "nudgeUpLarge":
+          nudgeSelection(0, -LARGE_NUDGE_STEP);
+          break;
+        case "nudgeDownLarge":
+          nudgeSelection(0, LARGE_NUDGE_STEP);
+          break;
+        case "nudgeLeftLarge":
+          nudgeSelection(-LARGE_NUDGE_STEP, 0);
+          break;
+        case "nudgeRightLarge":
+          nudgeSelection(LARGE_NUDGE_STEP, 0);
+          break;
+        case "zoomIn":
+          setZoom(clampZoom(graph.viewState.zoom * 1.25));
+          break;
+        case "zoomOut":
+          setZoom(clampZoom(graph.viewState.zoom * 0.8));
+          break;
+        case "resetZoom":
+          setZoom(1.0);
+          break;
       }
     },
-    [connectionState.isConnecting, cancelConnection]
+    [
+      keymap,
+      readOnly,
+      store,
+      connectionState.isConnecting,
+      cancelConnection,
+      setSelectedNodes,
+      selectedEdgeId,
+      removeEdgeById,
+      removeNodes,
+      duplicateNodes,
+      undo,
+      redo,
+      nudgeSelection,
+      setZoom,
+    ]
+  );
+
+  // Pastes at the cursor when it is over the editor, otherwise at the center
+  const getPastePosition = useCallback(() => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (
+      rect &&
+      currentMousePosition &&
+      currentMousePosition.x >= rect.left &&
+      currentMousePosition.x <= rect.right &&
+      currentMousePosition.y >= rect.top &&
+      currentMousePosition.y <= rect.bottom
+    ) {
+      const worldPosition = screenToWorldPosition(
+        currentMousePosition.x,
+        currentMousePosition.y
+      );
+      if (worldPosition) return worldPosition;
+    }
+
+    return {
+      x: canvasSize.width / 2 / viewState.zoom - viewState.offset.x,
+      y: canvasSize.height / 2 / viewState.zoom - viewState.offset.y,
+    };
+  }, [currentMousePosition, screenToWorldPosition, canvasSize, viewState]);
+
+  const handleCopy = useCallback(
+    (e: ClipboardEvent) => {
+      // Don't hijack copying of regular text selections
+      if (isEditableTarget(e.target) || !window.getSelection()?.isCollapsed) {
+        return;
+      }
+
+      const { graph, selectedNodeIds } = store.getState();
+      if (selectedNodeIds.size === 0) return;
+
+      e.preventDefault();
+      setClipboardEventData(e, serializeSubgraph(selectedNodeIds, graph));
+
+      if (e.type === "cut" && !readOnly) {
+        removeNodes([...selectedNodeIds]);
+      }
+    },
+    [store, readOnly, removeNodes]
+  );
+
+  const handlePaste = useCallback(
+    (e: ClipboardEvent) => {
+      if (readOnly || isEditableTarget(e.target)) return;
+
+      const data = getClipboardEventData(e);
+      if (!data) return;
+
+      e.preventDefault();
+      pasteSubgraph(data, getPastePosition());
+    },
+    [readOnly, pasteSubgraph, getPastePosition]
   );
 
   useEffect(() => {
+    // Clipboard events go to the document, only the focused editor handles them
+    const whenFocused =
+      <E extends Event>(handler: (e: E) => void) =>
+      (e: E) => {
+        if (containerRef.current?.contains(document.activeElement)) {
+          handler(e);
+        }
+      };
+    const onCopy = whenFocused(handleCopy);
+    const onPaste = whenFocused(handlePaste);
+
     document.addEventListener("mousemove", handleMouseMove);
-    document.addEventListener("keydown", handleKeyDown);
+    document.addEventListener("copy", onCopy);
+    document.addEventListener("cut", onCopy);
+    document.addEventListener("paste", onPaste);
 
     return () => {
       document.removeEventListener("mousemove", handleMouseMove);
-      document.removeEventListener("keydown", handleKeyDown);
+      document.removeEventListener("copy", onCopy);
+      document.removeEventListener("cut", onCopy);
+      document.removeEventListener("paste", onPaste);
     };
-  }, [handleMouseMove, handleKeyDown]);
+  }, [handleMouseMove, handleCopy, handlePaste]);
 
   useEffect(() => {
     if (contextMenuState.isVisible) {
@@ -459,8 +1157,80 @@ export const GraphEditor: FunctionComponent<GraphEditorProps> = ({
     }
   }, [contextMenuState.isVisible, hideContextMenu]);
 
+  useImperativeHandle(
+    handleRef,
+    () => {
+      const getContainerOrigin = () => {
+        const rect = containerRef.current?.getBoundingClientRect();
+        return { x: rect?.left ?? 0, y: rect?.top ?? 0 };
+      };
+
+      return {
+        addNode: (type, position, options) => addNode(type, position, options),
+        removeNode: (nodeId) => removeNodeById(nodeId),
+        updateNode: (nodeId, updates) => updateNode(nodeId, updates),
+        connect: (sourceNodeId, targetNodeId, ports) =>
+          addEdge(
+            sourceNodeId,
+            targetNodeId,
+            ports?.sourcePortId,
+            ports?.targetPortId
+          ),
+        disconnect: (edgeId) => removeEdgeById(edgeId),
+        getGraph: () => store.getState().graph,
+        getDiagnostics: () => store.getState().diagnostics,
+        applyChanges,
+        setViewport: (updates) =>
+          updateViewState(
+            updates.zoom === undefined
+              ? updates
+              : { ...updates, zoom: clampZoom(updates.zoom) }
+          ),
+        fitView,
+        select: (nodeIds) => setSelectedNodes(nodeIds),
+        execute,
+        cancelExecution,
+        setNodeRunStates: (updates) =>
+          store.getState().setNodeRunStates(updates),
+        clearNodeRunStates: () => store.getState().clearNodeRunStates(),
+        screenToWorld: (position) => {
+          const { zoom, offset } = store.getState().graph.viewState;
+          const origin = getContainerOrigin();
+          return {
+            x: (position.x - origin.x) / zoom - offset.x,
+            y: (position.y - origin.y) / zoom - offset.y,
+          };
+        },
+        worldToScreen: (position) => {
+          const { zoom, offset } = store.getState().graph.viewState;
+          const origin = getContainerOrigin();
+          return {
+            x: origin.x + (position.x + offset.x) * zoom,
+            y: origin.y + (position.y + offset.y) * zoom,
+          };
+        },
+      };
+    },
+    [
+      store,
+      addNode,
+      removeNodeById,
+      updateNode,
+      addEdge,
+      removeEdgeById,
+      applyChanges,
+      updateViewState,
+      fitView,
+      setSelectedNodes,
+      execute,
+      cancelExecution,
+    ]
+  );
+
   const handleContextMenu = useCallback(
     (e: React.MouseEvent) => {
+      // Every canvas menu item edits the graph
+      if (readOnly) return;
       e.preventDefault();
 
       const target = e.currentTarget;
@@ -478,37 +1248,71 @@ export const GraphEditor: FunctionComponent<GraphEditorProps> = ({
         canvasPosition
       );
     },
-    [viewState, showContextMenu]
+    [readOnly, viewState, showContextMenu]
   );
 
+  const editingNode = editingNodeId
+    ? nodes.find((node) => node.id === editingNodeId)
+    : undefined;
+
   return (
     <ThemeProvider theme={theme}>
       <div
         ref={containerRef}
+        // Focusable so shortcuts only apply while this editor is in use
+        tabIndex={0}
+        onKeyDown={handleKeyDown}
         style={{
           width,
           height,
           overflow: "hidden",
           position: "relative",
+          outline: "none",
         }}
       >
         <GraphCanvas
           onContextMenu={handleContextMenu}
           isConnecting={connectionState.isConnecting}
         >
-          <EdgeLayer width={canvasSize.width} height={canvasSize.height} />
+          <GroupLayer />
+          <NoteLayer />
 
-          {nodes.map((node) => (
+          <EdgeLayer
+            width={canvasSize.width}
+            height={canvasSize.height}
+            pathStyle={config.edgePathStyle}
+            edgeComponents={config.edgeComponents}
+            renderEdge={config.renderEdge}
+          />
+
+          {visibleNodes.map((node) => (
             <NodeCard
               key={node.id}
               node={{
                 ...node,
                 contextMenuItems: nodeContextMenuItems,
               }}
+              nodeComponent={config.nodeComponents?.[node.type]}
+              renderNode={config.renderNode}
             />
           ))}
         </GraphCanvas>
 
+        {children}
+
+        {editingNode && !readOnly && (
+          <PayloadEditor
+            key={editingNode.id}
+            node={editingNode}
+            schema={nodeTypeConfigMap.get(editingNode.type)?.payloadSchema}
+            onSubmit={(payload) => {
+              updateNode(editingNode.id, { payload });
+              setEditingNodeId(null);
+            }}
+            onClose={() => setEditingNodeId(null)}
+          />
+        )}
+
         {contextMenuState.isVisible && (
           <>
             {contextMenuState.type === "canvas" &&
@@ -528,9 +1332,36 @@ export const GraphEditor: FunctionComponent<GraphEditorProps> = ({
                 onClose={hideContextMenu}
               />
             )}
+            {contextMenuState.type === "edge" && contextMenuState.edgeId && (
+              <EdgeContextMenu
+                position={contextMenuState.position}
+                edgeId={contextMenuState.edgeId}
+                menuItems={edgeContextMenuItems}
+                onClose={hideContextMenu}
+              />
+            )}
           </>
         )}
       </div>
     </ThemeProvider>
   );
 };
+
+export const GraphEditor = forwardRef<GraphEditorHandle, GraphEditorProps>(
+  (props, ref) => {
+    // Share the store of a surrounding GraphStoreProvider, e.g. with a toolbar
+    const parentStore = useContext(GraphStoreContext);
+
+    if (parentStore) {
+      return <GraphEditorContent {...props} handleRef={ref} />;
+    }
+
+    return (
+      <GraphStoreProvider>
+        <GraphEditorContent {...props} handleRef={ref} />
+      </GraphStoreProvider>
+    );
+  }
+);
+
+GraphEditor.displayName = "GraphEditor";
@@ -0,0 +1,189 @@
+import {
+  useEffect,
+  useRef,
+  useMemo,
+  useContext,
+  type FunctionComponent,
+  type ReactNode,
+} from "react";
+import { ThemeProvider } from "styled-components";
+import { createTheme, type Theme } from "./types/theme";
+import { GraphCanvas } from "./components/GraphCanvas";
+import { NodeCard } from "./components/NodeCard";
+import { GroupLayer } from "./components/GroupLayer";
+import { NoteLayer } from "./components/NoteLayer";
+import { EdgeLayer } from "./components/EdgeLayer";
+import {
+  useNodes,
+  useGroups,
+  useViewportSize,
+  useSetViewportSize,
+  useSetInitialGraph,
+  useSyncGraph,
+  useFitView,
+  useSetNodeTypeConfigMap,
+  useSetReadOnly,
+  GraphStoreContext,
+} from "./stores/graphStore";
+import { GraphStoreProvider } from "./stores/GraphStoreProvider";
+import type { Graph, NodeTypeConfig, EdgePathStyle } from "./types/graph";
+import type {
+  NodeComponent,
+  NodeRenderer,
+  EdgeComponent,
+  EdgeRenderer,
+} from "./types/components";
+import type { ViewportOptions } from "./utils/viewport";
+import { getVisibleNodes } from "./utils/groups";
+
+export interface GraphViewerProps {
+  graph: Graph;
+  nodeTypes: NodeTypeConfig[];
+  /** Custom node components keyed by node type */
+  nodeComponents?: Record<string, NodeComponent>;
+  /** Custom content for any node type without an entry in nodeComponents */
+  renderNode?: NodeRenderer;
+  /** Path style of every edge without its own pathStyle (default: "bezier") */
+  edgePathStyle?: EdgePathStyle;
+  /** Custom SVG edge components keyed by edge type */
+  edgeComponents?: Record<string, EdgeComponent>;
+  /** Custom SVG for any edge without an entry in edgeComponents */
+  renderEdge?: EdgeRenderer;
+  theme?: Partial<Theme>;
+  width?: number | string;
+  height?: number | string;
+  /** Fits the graph into view when it is first loaded (default: true) */
+  fitView?: boolean | ViewportOptions;
+  /** Overlays such as <MiniMap>, rendered above the canvas */
+  children?: ReactNode;
+}
+
+const GraphViewerContent: FunctionComponent<GraphViewerProps> = ({
+  graph,
+  nodeTypes,
+  nodeComponents,
+  renderNode,
+  edgePathStyle,
+  edgeComponents,
+  renderEdge,
+  theme,
+  width = "100%",
+  height = "100%",
+  fitView = true,
+  children,
+}) => {
+  const nodes = useNodes();
+  const groups = useGroups();
+  const canvasSize = useViewportSize();
+  const setViewportSize = useSetViewportSize();
+  const setInitialGraph = useSetInitialGraph();
+  const syncGraph = useSyncGraph();
+  const fitViewToGraph = useFitView();
+  const setNodeTypeConfigMap = useSetNodeTypeConfigMap();
+  const setReadOnly = useSetReadOnly();
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setReadOnly(true);
+  }, [setReadOnly]);
+
+  useEffect(() => {
+    setNodeTypeConfigMap(
+      new Map(nodeTypes.map((nodeType) => [nodeType.id, nodeType]))
+    );
+  }, [nodeTypes, setNodeTypeConfigMap]);
+
+  // Measured before the graph is loaded so fitView uses the real size
+  useEffect(() => {
+    const updateSize = () => {
+      if (containerRef.current) {
+        const rect = containerRef.current.getBoundingClientRect();
+        setViewportSize({ width: rect.width, height: rect.height });
+      }
+    };
+
+    updateSize();
+    window.addEventListener("resize", updateSize);
+    return () => window.removeEventListener("resize", updateSize);
+  }, [setViewportSize]);
+
+  const isFirstRender = useRef(true);
+  // Only read for the first graph, so later graphs keep the viewport
+  const fitViewRef = useRef(fitView);
+
+  useEffect(() => {
+    if (isFirstRender.current) {
+      setInitialGraph(graph);
+      isFirstRender.current = false;
+
+      if (fitViewRef.current) {
+        fitViewToGraph({
+          duration: 0,
+          ...(fitViewRef.current === true ? {} : fitViewRef.current),
+        });
+      }
+    } else {
+      syncGraph(graph);
+    }
+  }, [graph, setInitialGraph, syncGraph, fitViewToGraph]);
+
+  const mergedTheme = useMemo(
+    () => createTheme(nodeTypes, theme),
+    [nodeTypes, theme]
+  );
+  const visibleNodes = useMemo(
+    () => getVisibleNodes(nodes, groups),
+    [nodes, groups]
+  );
+
+  return (
+    <ThemeProvider theme={mergedTheme}>
+      <div
+        ref={containerRef}
+        style={{ width, height, overflow: "hidden", position: "relative" }}
+      >
+        <GraphCanvas>
+          <GroupLayer />
+          <NoteLayer />
+
+          <EdgeLayer
+            width={canvasSize.width}
+            height={canvasSize.height}
+            pathStyle={edgePathStyle}
+            edgeComponents={edgeComponents}
+            renderEdge={renderEdge}
+          />
+
+          {visibleNodes.map((node) => (
+            <NodeCard
+              key={node.id}
+              node={node}
+              nodeComponent={nodeComponents?.[node.type]}
+              renderNode={renderNode}
+            />
+          ))}
+        </GraphCanvas>
+
+        {children}
+      </div>
+    </ThemeProvider>
+  );
+};
+
+/**
+ * Read-only display of a graph, e.g. for previews and run histories.
+ * Supports pan, zoom and selection, but no menus, shortcuts or edits.
+ */
+export const GraphViewer: FunctionComponent<GraphViewerProps> = (props) => {
+  const parentStore = useContext(GraphStoreContext);
+
+  if (parentStore) {
+    return <GraphViewerContent {...props} />;
+  }
+
+  return (
+    <GraphStoreProvider>
+      <GraphViewerContent {...props} />
+    </GraphStoreProvider>
+  );
+};
@@ -1,4 +1,4 @@
-import { useState, type FunctionComponent } from "react";
+import { useRef, useState, type FunctionComponent } from "react";
 import styled from "styled-components";
 import type {
   ContextMenuItem,
@@ -81,6 +81,13 @@ export interface ContextMenuPosition {
   y: number;
 }
 
+interface ItemContextMenuProps {
+  position: ContextMenuPosition;
+  targetId: string;
+  menuItems: ContextMenuItem[];
+  onClose: () => void;
+}
+
 interface NodeContextMenuProps {
   position: ContextMenuPosition;
   nodeId: string;
@@ -88,6 +95,13 @@ interface NodeContextMenuProps {
   onClose: () => void;
 }
 
+interface EdgeContextMenuProps {
+  position: ContextMenuPosition;
+  edgeId: string;
+  menuItems: ContextMenuItem[];
+  onClose: () => void;
+}
+
 interface CanvasContextMenuProps {
   position: ContextMenuPosition;
   canvasPosition: Position;
@@ -95,12 +109,14 @@ interface CanvasContextMenuProps {
   onClose: () => void;
 }
 
-export const NodeContextMenu: FunctionComponent<NodeContextMenuProps> = ({
+// Context menu whose items act on a single node or edge id
+const ItemContextMenu: FunctionComponent<ItemContextMenuProps> = ({
   position,
-  nodeId,
+  targetId,
   menuItems,
   onClose,
 }) => {
+  const menuRef = useRef<HTMLDivElement>(null);
   const [hoveredItem, setHoveredItem] = useState<string | null>(null);
   const [submenuPosition, setSubmenuPosition] = useState<{
     x: number;
@@ -114,7 +130,7 @@ export const NodeContextMenu: FunctionComponent<NodeContextMenuProps> = ({
   const handleItemClick = (item: ContextMenuItem) => {
     if (item.disabled || item.submenu) return;
 
-    item.onClick(nodeId);
+    item.onClick(targetId);
     onClose();
   };
 
@@ -122,7 +138,7 @@ export const NodeContextMenu: FunctionComponent<NodeContextMenuProps> = ({
     if (item.submenu && item.submenu.length > 0) {
       setHoveredItem(item.id);
 
-      const mainMenu = document.getElementById("node-context-menu");
+      const mainMenu = menuRef.current;
       if (mainMenu) {
         const rect = mainMenu.getBoundingClientRect();
         setSubmenuPosition({
@@ -153,7 +169,7 @@ export const NodeContextMenu: FunctionComponent<NodeContextMenuProps> = ({
   return (
     <div onMouseLeave={handleMenuAreaLeave}>
       <MenuContainer
-        id="node-context-menu"
+        ref={menuRef}
         $x={position.x}
         $y={position.y}
         onClick={handleMenuClick}
@@ -225,12 +241,23 @@ export const NodeContextMenu: FunctionComponent<NodeContextMenuProps> = ({
   );
 };
 
+export const NodeContextMenu: FunctionComponent<NodeContextMenuProps> = ({
+  nodeId,
+  ...props
+}) => <ItemContextMenu targetId={nodeId} {...props} />;
+
+export const EdgeContextMenu: FunctionComponent<EdgeContextMenuProps> = ({
+  edgeId,
+  ...props
+}) => <ItemContextMenu targetId={edgeId} {...props} />;
+
 export const CanvasContextMenu: FunctionComponent<CanvasContextMenuProps> = ({
   position,
   canvasPosition,
   menuItems,
   onClose,
 }) => {
+  const menuRef = useRef<HTMLDivElement>(null);
   const [hoveredItem, setHoveredItem] = useState<string | null>(null);
   const [submenuPosition, setSubmenuPosition] = useState<{
     x: number;
@@ -254,7 +281,7 @@ export const CanvasContextMenu: FunctionComponent<CanvasContextMenuProps> = ({
     if (item.submenu && item.submenu.length > 0) {
       setHoveredItem(item.id);
 
-      const mainMenu = document.getElementById("canvas-context-menu");
+      const mainMenu = menuRef.current;
       if (mainMenu) {
         const rect = mainMenu.getBoundingClientRect();
         setSubmenuPosition({
@@ -285,7 +312,7 @@ export const CanvasContextMenu: FunctionComponent<CanvasContextMenuProps> = ({
   return (
     <div onMouseLeave={handleMenuAreaLeave}>
       <MenuContainer
-        id="canvas-context-menu"
+        ref={menuRef}
         $x={position.x}
         $y={position.y}
         onClick={handleMenuClick}
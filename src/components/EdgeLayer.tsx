@@ -1,12 +1,36 @@
-import { useMemo, type FunctionComponent } from "react";
-import styled from "styled-components";
+import { useMemo, type FunctionComponent, type ReactNode } from "react";
+import styled, { css, keyframes } from "styled-components";
 import {
   useNodes,
   useEdges,
   useConnectionState,
   useRemoveEdgeById,
+  useNodeTypeConfigMap,
+  useSelectedEdge,
+  useSetSelectedEdge,
+  useShowEdgeContextMenu,
+  useNodeSizeGetter,
+  useGroups,
+  useReadOnly,
+  useEdgeDiagnostics,
+  useRunningNodeIds,
 } from "../stores/graphStore";
-import type { Node } from "../types/graph";
+import type { EdgePathStyle } from "../types/graph";
+import type {
+  EdgeComponent,
+  EdgeComponentProps,
+  EdgeRenderer,
+} from "../types/components";
+import {
+  getEdgeSourcePortId,
+  getEdgeTargetPortId,
+  getPortPosition,
+} from "../utils/graph";
+import { DEFAULT_EDGE_PATH_STYLE, getEdgePath } from "../utils/edgePath";
+import {
+  getCollapsedGroupRect,
+  getCollapsedGroupsByNodeId,
+} from "../utils/groups";
 
 const SVGContainer = styled.svg`
   position: absolute;
@@ -17,22 +41,71 @@ const SVGContainer = styled.svg`
   overflow: visible;
 `;
 
-const EdgePath = styled.path<{ $isActive?: boolean }>`
+// Moves the dashes one pattern length towards the target
+const flow = keyframes`
+  from {
+    stroke-dashoffset: 12;
+  }
+  to {
+    stroke-dashoffset: 0;
+  }
+`;
+
+const EdgePath = styled.path<{
+  $isActive?: boolean;
+  $invalid?: boolean;
+  $flowing?: boolean;
+}>`
   fill: none;
-  stroke: ${(props) =>
-    props.$isActive
-      ? props.theme.colors.connectionActive
-      : props.theme.colors.connection};
-  stroke-width: 2;
+  stroke: ${(props) => {
+    if (props.$isActive || props.$flowing) {
+      return props.theme.colors.connectionActive;
+    }
+    return props.$invalid
+      ? props.theme.colors.connectionError
+      : props.theme.colors.connection;
+  }};
+  stroke-dasharray: ${(props) => (props.$invalid ? "6 4" : "none")};
+  stroke-width: ${(props) => (props.$isActive ? 3 : 2)};
   pointer-events: stroke;
   cursor: pointer;
 
+  ${(props) =>
+    props.$flowing &&
+    css`
+      stroke-dasharray: 8 4;
+      animation: ${flow} 0.5s linear infinite;
+    `}
+
   &:hover {
     stroke: ${(props) => props.theme.colors.connectionActive};
     stroke-width: 3;
   }
 `;
 
+const EdgeLabel = styled.text<{ $isActive?: boolean }>`
+  fill: ${(props) =>
+    props.$isActive
+      ? props.theme.colors.connectionActive
+      : props.theme.colors.textSecondary};
+  font-family: ${(props) => props.theme.fonts.body};
+  font-size: 12px;
+  text-anchor: middle;
+  dominant-baseline: middle;
+  paint-order: stroke;
+  stroke: ${(props) => props.theme.colors.background};
+  stroke-width: 4px;
+  stroke-linejoin: round;
+  pointer-events: visiblePainted;
+  cursor: pointer;
+  user-select: none;
+`;
+
+const CustomEdgeGroup = styled.g`
+  pointer-events: visiblePainted;
+  cursor: pointer;
+`;
+
 const ConnectionPreview = styled.path`
   fill: none;
   stroke: ${(props) => props.theme.colors.connectionActive};
@@ -44,50 +117,32 @@ const ConnectionPreview = styled.path`
 interface EdgeLayerProps {
   width: number;
   height: number;
+  pathStyle?: EdgePathStyle;
+  edgeComponents?: Record<string, EdgeComponent>;
+  renderEdge?: EdgeRenderer;
 }
 
-const createCurvedPath = (
-  x1: number,
-  y1: number,
-  x2: number,
-  y2: number
-): string => {
-  const dx = x2 - x1;
-
-  const controlPointOffset = Math.max(Math.abs(dx) * 0.5, 100);
-  const cp1x = x1 + controlPointOffset;
-  const cp1y = y1;
-  const cp2x = x2 - controlPointOffset;
-  const cp2y = y2;
-
-  return `M ${x1} ${y1} C ${cp1x} ${cp1y}, ${cp2x} ${cp2y}, ${x2} ${y2}`;
-};
-
-const getNodePortPosition = (node: Node, portType: "input" | "output") => {
-  const nodeWidth = 200;
-  const nodeHeight = 80;
-
-  if (portType === "input") {
-    return {
-      x: node.position.x,
-      y: node.position.y + nodeHeight / 2,
-    };
-  } else {
-    return {
-      x: node.position.x + nodeWidth,
-      y: node.position.y + nodeHeight / 2,
-    };
-  }
-};
-
 export const EdgeLayer: FunctionComponent<EdgeLayerProps> = ({
   width,
   height,
+  pathStyle = DEFAULT_EDGE_PATH_STYLE,
+  edgeComponents,
+  renderEdge,
 }) => {
   const nodes = useNodes();
   const edges = useEdges();
   const connectionState = useConnectionState();
   const removeEdgeById = useRemoveEdgeById();
+  const nodeTypeConfigMap = useNodeTypeConfigMap();
+  const selectedEdgeId = useSelectedEdge();
+  const setSelectedEdge = useSetSelectedEdge();
+  const showEdgeContextMenu = useShowEdgeContextMenu();
+  const getNodeSize = useNodeSizeGetter();
+  const groups = useGroups();
+  const readOnly = useReadOnly();
+  const edgeDiagnostics = useEdgeDiagnostics();
+  // Only changes when nodes start or stop, not on progress updates
+  const runningNodeIds = useRunningNodeIds();
 
   const svgSize = {
     width: Math.max(width * 3, 3000),
@@ -96,6 +151,19 @@ export const EdgeLayer: FunctionComponent<EdgeLayerProps> = ({
 
   const edgePaths = useMemo(() => {
     const nodeMap = new Map(nodes.map((node) => [node.id, node]));
+    const collapsedGroups = getCollapsedGroupsByNodeId(groups);
+
+    // Edges leaving a collapsed group attach to the side of its proxy
+    const getGroupAnchor = (nodeId: string, side: "input" | "output") => {
+      const group = collapsedGroups.get(nodeId);
+      const rect = group && getCollapsedGroupRect(group, nodes, getNodeSize);
+      return (
+        rect && {
+          x: side === "input" ? rect.x : rect.x + rect.width,
+          y: rect.y + rect.height / 2,
+        }
+      );
+    };
 
     return edges
       .map((edge) => {
@@ -104,21 +172,42 @@ export const EdgeLayer: FunctionComponent<EdgeLayerProps> = ({
 
         if (!sourceNode || !targetNode) return null;
 
-        const sourcePos = getNodePortPosition(sourceNode, "output");
-        const targetPos = getNodePortPosition(targetNode, "input");
+        // Edges inside a collapsed group are hidden with its nodes
+        const sourceGroup = collapsedGroups.get(sourceNode.id);
+        if (sourceGroup && sourceGroup === collapsedGroups.get(targetNode.id)) {
+          return null;
+        }
+
+        const sourcePos =
+          getGroupAnchor(sourceNode.id, "output") ??
+          getPortPosition(
+            sourceNode,
+            "output",
+            getEdgeSourcePortId(edge),
+            nodeTypeConfigMap?.get(sourceNode.type),
+            getNodeSize(sourceNode)
+          );
+        const targetPos =
+          getGroupAnchor(targetNode.id, "input") ??
+          getPortPosition(
+            targetNode,
+            "input",
+            getEdgeTargetPortId(edge),
+            nodeTypeConfigMap?.get(targetNode.type),
+            getNodeSize(targetNode)
+          );
+        const edgePathStyle = edge.pathStyle ?? pathStyle;
 
         return {
           edge,
-          path: createCurvedPath(
-            sourcePos.x,
-            sourcePos.y,
-            targetPos.x,
-            targetPos.y
-          ),
+          sourcePos,
+          targetPos,
+          edgePathStyle,
+          ...getEdgePath(sourcePos, targetPos, edgePathStyle),
         };
       })
       .filter((item): item is NonNullable<typeof item> => item !== null);
-  }, [nodes, edges]);
+  }, [nodes, edges, groups, nodeTypeConfigMap, getNodeSize, pathStyle]);
 
   const connectionPreviewPath = useMemo(() => {
     if (
@@ -134,32 +223,109 @@ export const EdgeLayer: FunctionComponent<EdgeLayerProps> = ({
     );
     if (!sourceNode) return null;
 
-    const sourcePos = getNodePortPosition(sourceNode, "output");
-
-    return createCurvedPath(
-      sourcePos.x,
-      sourcePos.y,
-      connectionState.currentPosition.x,
-      connectionState.currentPosition.y
+    const sourcePos = getPortPosition(
+      sourceNode,
+      "output",
+      connectionState.sourcePort.portId,
+      nodeTypeConfigMap?.get(sourceNode.type),
+      getNodeSize(sourceNode)
     );
-  }, [connectionState, nodes]);
+
+    return getEdgePath(sourcePos, connectionState.currentPosition, pathStyle)
+      .path;
+  }, [connectionState, nodes, nodeTypeConfigMap, getNodeSize, pathStyle]);
 
   const handleEdgeClick = (edgeId: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    if (e.detail === 2) {
+    if (e.detail === 2 && !readOnly) {
       removeEdgeById(edgeId);
+    } else {
+      setSelectedEdge(edgeId);
+    }
+  };
+
+  const handleEdgeContextMenu = (edgeId: string, e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setSelectedEdge(edgeId);
+    if (!readOnly) {
+      showEdgeContextMenu({ x: e.clientX, y: e.clientY }, edgeId);
     }
   };
 
   return (
     <SVGContainer width={svgSize.width} height={svgSize.height}>
-      {edgePaths.map(({ edge, path }) => (
-        <EdgePath
-          key={edge.id}
-          d={path}
-          onClick={(e) => handleEdgeClick(edge.id, e)}
-        />
-      ))}
+      {edgePaths.map(
+        ({ edge, sourcePos, targetPos, edgePathStyle, path, midpoint }) => {
+          const isSelected = edge.id === selectedEdgeId;
+          const isFlowing = runningNodeIds.has(edge.targetNodeId);
+          const diagnostics = edgeDiagnostics.get(edge.id);
+          const diagnosticTitle = diagnostics && (
+            <title>
+              {diagnostics.map((diagnostic) => diagnostic.message).join("\n")}
+            </title>
+          );
+          const componentProps: EdgeComponentProps = {
+            edge,
+            sourcePosition: sourcePos,
+            targetPosition: targetPos,
+            path,
+            midpoint,
+            pathStyle: edgePathStyle,
+            selected: isSelected,
+            flowing: isFlowing,
+          };
+
+          const CustomEdge = edge.type
+            ? edgeComponents?.[edge.type]
+            : undefined;
+          let customContent: ReactNode = null;
+          if (CustomEdge) {
+            customContent = <CustomEdge {...componentProps} />;
+          } else if (renderEdge) {
+            customContent = renderEdge(componentProps);
+          }
+
+          if (customContent !== null && customContent !== undefined) {
+            return (
+              <CustomEdgeGroup
+                key={edge.id}
+                onClick={(e) => handleEdgeClick(edge.id, e)}
+                onContextMenu={(e) => handleEdgeContextMenu(edge.id, e)}
+              >
+                {diagnosticTitle}
+                {customContent}
+              </CustomEdgeGroup>
+            );
+          }
+
+          return (
+            <g key={edge.id}>
+              <EdgePath
+                d={path}
+                $isActive={isSelected}
+                $invalid={diagnostics !== undefined}
+                $flowing={isFlowing}
+                onClick={(e) => handleEdgeClick(edge.id, e)}
+                onContextMenu={(e) => handleEdgeContextMenu(edge.id, e)}
+              >
+                {diagnosticTitle}
+              </EdgePath>
+              {edge.label && (
+                <EdgeLabel
+                  x={midpoint.x}
+                  y={midpoint.y}
+                  $isActive={isSelected}
+                  onClick={(e) => handleEdgeClick(edge.id, e)}
+                  onContextMenu={(e) => handleEdgeContextMenu(edge.id, e)}
+                >
+                  {edge.label}
+                </EdgeLabel>
+              )}
+            </g>
+          );
+        }
+      )}
 
       {connectionPreviewPath && <ConnectionPreview d={connectionPreviewPath} />}
     </SVGContainer>
@@ -7,8 +7,16 @@ import {
   type FunctionComponent,
 } from "react";
 import styled from "styled-components";
-import { useViewState, useUpdateViewState } from "../stores/graphStore";
-import type { Position } from "../types/graph";
+import {
+  useViewState,
+  useUpdateViewState,
+  useSetSelectedNode,
+  useSelectNodesInRect,
+  useActiveGuides,
+  useSnapOptions,
+} from "../stores/graphStore";
+import type { Position, Rect } from "../types/graph";
+import { clampZoom } from "../utils/viewport";
 
 const CanvasContainer = styled.div`
   width: 100%;
@@ -32,7 +40,11 @@ const CanvasContent = styled.div<{ $zoom: number; $offset: Position }>`
   position: relative;
 `;
 
-const GridBackground = styled.div<{ $zoom: number; $offset: Position }>`
+const GridBackground = styled.div<{
+  $zoom: number;
+  $offset: Position;
+  $gridSize: number;
+}>`
   position: absolute;
   top: 0;
   left: 0;
@@ -43,13 +55,43 @@ const GridBackground = styled.div<{ $zoom: number; $offset: Position }>`
     ${(props) => props.theme.colors.border} 1px,
     transparent 1px
   );
-  background-size: ${(props) => 20 * props.$zoom}px
-    ${(props) => 20 * props.$zoom}px;
+  background-size: ${(props) => props.$gridSize * props.$zoom}px
+    ${(props) => props.$gridSize * props.$zoom}px;
   background-position: ${(props) => props.$offset.x * props.$zoom}px
     ${(props) => props.$offset.y * props.$zoom}px;
   opacity: 0.3;
 `;
 
+const SelectionRect = styled.div`
+  position: absolute;
+  border: 1px dashed ${(props) => props.theme.colors.primary};
+  background-color: ${(props) => props.theme.colors.primary}1a;
+  pointer-events: none;
+  z-index: 20;
+`;
+
+const GuideLine = styled.div<{ $vertical: boolean }>`
+  position: absolute;
+  border: 0 dashed ${(props) => props.theme.colors.connectionActive};
+  border-${(props) => (props.$vertical ? "left" : "top")}-width: 1px;
+  pointer-events: none;
+  z-index: 20;
+`;
+
+interface Marquee {
+  start: Position;
+  current: Position;
+  additive: boolean;
+}
+
+// Normalizes two corner points into a rect with positive size
+const getRectFromPoints = (a: Position, b: Position): Rect => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(a.x - b.x),
+  height: Math.abs(a.y - b.y),
+});
+
 interface GraphCanvasProps {
   children: ReactNode;
   onContextMenu?: (e: React.MouseEvent) => void;
@@ -63,22 +105,51 @@ export const GraphCanvas: FunctionComponent<GraphCanvasProps> = ({
   const containerRef = useRef<HTMLDivElement>(null);
   const [isPanning, setIsPanning] = useState(false);
   const [panStart, setPanStart] = useState<Position>({ x: 0, y: 0 });
+  const [marquee, setMarquee] = useState<Marquee | null>(null);
 
   const viewState = useViewState();
   const updateViewState = useUpdateViewState();
+  const setSelectedNode = useSetSelectedNode();
+  const selectNodesInRect = useSelectNodesInRect();
+  const activeGuides = useActiveGuides();
+  const { gridSize } = useSnapOptions();
   const { zoom, offset } = viewState;
 
+  // Mouse position relative to the canvas container
+  const getLocalPosition = useCallback(
+    (e: { clientX: number; clientY: number }) => {
+      const rect = containerRef.current?.getBoundingClientRect();
+      return {
+        x: e.clientX - (rect?.left ?? 0),
+        y: e.clientY - (rect?.top ?? 0),
+      };
+    },
+    []
+  );
+
   const handleMouseDown = useCallback(
     (e: React.MouseEvent) => {
-      if (e.button === 0) {
-        setIsPanning(true);
-        setPanStart({
-          x: e.clientX - offset.x,
-          y: e.clientY - offset.y,
+      if (e.button !== 0) return;
+
+      // Shift-drag draws a selection rectangle, Ctrl/Cmd keeps the selection
+      if (e.shiftKey) {
+        const position = getLocalPosition(e);
+        setMarquee({
+          start: position,
+          current: position,
+          additive: e.ctrlKey || e.metaKey,
         });
+        return;
       }
+
+      setSelectedNode(null);
+      setIsPanning(true);
+      setPanStart({
+        x: e.clientX - offset.x,
+        y: e.clientY - offset.y,
+      });
     },
-    [offset]
+    [offset, getLocalPosition, setSelectedNode]
   );
 
   const handleContextMenu = useCallback(
@@ -92,6 +163,12 @@ export const GraphCanvas: FunctionComponent<GraphCanvasProps> = ({
 
   const handleMouseMove = useCallback(
     (e: MouseEvent) => {
+      if (marquee) {
+        const position = getLocalPosition(e);
+        setMarquee((prev) => (prev ? { ...prev, current: position } : prev));
+        return;
+      }
+
       if (isPanning) {
         updateViewState({
           offset: {
@@ -101,12 +178,25 @@ export const GraphCanvas: FunctionComponent<GraphCanvasProps> = ({
         });
       }
     },
-    [isPanning, panStart, updateViewState]
+    [marquee, isPanning, panStart, updateViewState, getLocalPosition]
   );
 
   const handleMouseUp = useCallback(() => {
+    if (marquee) {
+      const screenRect = getRectFromPoints(marquee.start, marquee.current);
+      selectNodesInRect(
+        {
+          x: screenRect.x / zoom - offset.x,
+          y: screenRect.y / zoom - offset.y,
+          width: screenRect.width / zoom,
+          height: screenRect.height / zoom,
+        },
+        marquee.additive
+      );
+      setMarquee(null);
+    }
     setIsPanning(false);
-  }, []);
+  }, [marquee, zoom, offset, selectNodesInRect]);
 
   const handleWheel = useCallback(
     (e: WheelEvent) => {
@@ -119,7 +209,7 @@ export const GraphCanvas: FunctionComponent<GraphCanvasProps> = ({
       const mouseY = e.clientY - rect.top;
 
       const zoomFactor = e.deltaY > 0 ? 0.975 : 1.025;
-      const newZoom = Math.max(0.5, Math.min(2.0, zoom * zoomFactor));
+      const newZoom = clampZoom(zoom * zoomFactor);
 
       const zoomRatio = newZoom / zoom;
       const newOffset = {
@@ -157,10 +247,43 @@ export const GraphCanvas: FunctionComponent<GraphCanvasProps> = ({
       onContextMenu={handleContextMenu}
       className={isPanning ? "grabbing" : ""}
     >
-      <GridBackground $zoom={zoom} $offset={offset} />
+      <GridBackground $zoom={zoom} $offset={offset} $gridSize={gridSize} />
       <CanvasContent $zoom={zoom} $offset={offset}>
         {children}
       </CanvasContent>
+      {marquee &&
+        (() => {
+          const rect = getRectFromPoints(marquee.start, marquee.current);
+          return (
+            <SelectionRect
+              style={{
+                left: rect.x,
+                top: rect.y,
+                width: rect.width,
+                height: rect.height,
+              }}
+            />
+          );
+        })()}
+      {activeGuides.map((guide, index) => {
+        // Guides are drawn in screen space so they stay 1px at any zoom
+        const vertical = guide.orientation === "vertical";
+        const position =
+          (guide.position + (vertical ? offset.x : offset.y)) * zoom;
+        const start = (guide.start + (vertical ? offset.y : offset.x)) * zoom;
+        const length = (guide.end - guide.start) * zoom;
+        return (
+          <GuideLine
+            key={index}
+            $vertical={vertical}
+            style={
+              vertical
+                ? { left: position, top: start, height: length }
+                : { top: position, left: start, width: length }
+            }
+          />
+        );
+      })}
     </CanvasContainer>
   );
 };
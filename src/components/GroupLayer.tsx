@@ -0,0 +1,224 @@
+import { useEffect, useState, type FunctionComponent } from "react";
+import styled, { useTheme } from "styled-components";
+import type { Group, Position } from "../types/graph";
+import {
+  useNodes,
+  useGroups,
+  useViewState,
+  useNodeSizeGetter,
+  useMoveNodes,
+  useSetSelectedNodes,
+  useUngroup,
+  useUpdateGroup,
+  useSetGroupCollapsed,
+  useBeginHistoryBatch,
+  useEndHistoryBatch,
+  useGraphStoreApi,
+  useReadOnly,
+} from "../stores/graphStore";
+import {
+  getCollapsedGroupRect,
+  getGroupMovePositions,
+  getGroupRect,
+  GROUP_HEADER_HEIGHT,
+} from "../utils/groups";
+
+const GroupFrame = styled.div<{ $color: string }>`
+  position: absolute;
+  box-sizing: border-box;
+  border: 2px solid ${(props) => props.$color};
+  border-radius: ${(props) => props.theme.borderRadius.lg};
+  background-color: ${(props) => props.$color}14;
+  pointer-events: none;
+`;
+
+const GroupHeader = styled.div<{ $color: string; $readOnly: boolean }>`
+  display: flex;
+  align-items: center;
+  gap: ${(props) => props.theme.spacing.xs};
+  height: ${GROUP_HEADER_HEIGHT}px;
+  padding: 0 ${(props) => props.theme.spacing.sm};
+  background-color: ${(props) => props.$color}33;
+  color: ${(props) => props.theme.colors.text};
+  font-size: 13px;
+  font-weight: 600;
+  cursor: ${(props) => (props.$readOnly ? "default" : "move")};
+  user-select: none;
+  pointer-events: auto;
+`;
+
+const GroupTitle = styled.span`
+  flex: 1;
+  white-space: nowrap;
+  overflow: hidden;
+  text-overflow: ellipsis;
+`;
+
+const HeaderButton = styled.button`
+  border: none;
+  background: none;
+  padding: 2px 4px;
+  color: ${(props) => props.theme.colors.textSecondary};
+  font-size: 12px;
+  cursor: pointer;
+
+  &:hover {
+    color: ${(props) => props.theme.colors.text};
+  }
+`;
+
+const CollapsedGroup = styled(GroupFrame)<{ $readOnly: boolean }>`
+  border-radius: ${(props) => props.theme.borderRadius.md};
+  background-color: ${(props) => props.theme.colors.surface};
+  box-shadow: ${(props) => props.theme.shadows.md};
+  pointer-events: auto;
+  cursor: ${(props) => (props.$readOnly ? "default" : "move")};
+`;
+
+const CollapsedSummary = styled.div`
+  padding: ${(props) => `${props.theme.spacing.xs} ${props.theme.spacing.sm}`};
+  font-size: 12px;
+  color: ${(props) => props.theme.colors.textSecondary};
+`;
+
+interface GroupDrag {
+  mouse: Position;
+  // World positions of the group's nodes when the drag started
+  positions: Record<string, Position>;
+}
+
+/** Frames of expanded groups and proxies of collapsed ones, behind nodes */
+export const GroupLayer: FunctionComponent = () => {
+  const theme = useTheme();
+  const [drag, setDrag] = useState<GroupDrag | null>(null);
+
+  const nodes = useNodes();
+  const groups = useGroups();
+  const { zoom } = useViewState();
+  const getNodeSize = useNodeSizeGetter();
+  const moveNodes = useMoveNodes();
+  const setSelectedNodes = useSetSelectedNodes();
+  const ungroup = useUngroup();
+  const updateGroup = useUpdateGroup();
+  const setGroupCollapsed = useSetGroupCollapsed();
+  const beginHistoryBatch = useBeginHistoryBatch();
+  const endHistoryBatch = useEndHistoryBatch();
+  const store = useGraphStoreApi();
+  const readOnly = useReadOnly();
+
+  const handleDragStart = (e: React.MouseEvent, group: Group) => {
+    if (e.button !== 0 || readOnly) return;
+    e.stopPropagation();
+
+    const { graph } = store.getState();
+    setSelectedNodes(group.collapsed ? [] : group.nodeIds);
+    // The whole drag is recorded as a single undo step
+    beginHistoryBatch();
+    setDrag({
+      mouse: { x: e.clientX, y: e.clientY },
+      positions: getGroupMovePositions(group, graph.nodes, { x: 0, y: 0 }),
+    });
+  };
+
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const dx = (e.clientX - drag.mouse.x) / zoom;
+      const dy = (e.clientY - drag.mouse.y) / zoom;
+      const positions: Record<string, Position> = {};
+      Object.entries(drag.positions).forEach(([nodeId, position]) => {
+        positions[nodeId] = { x: position.x + dx, y: position.y + dy };
+      });
+      moveNodes(positions);
+    };
+    const handleMouseUp = () => {
+      setDrag(null);
+      endHistoryBatch();
+    };
+
+    document.addEventListener("mousemove", handleMouseMove);
+    document.addEventListener("mouseup", handleMouseUp);
+    return () => {
+      document.removeEventListener("mousemove", handleMouseMove);
+      document.removeEventListener("mouseup", handleMouseUp);
+    };
+  }, [drag, zoom, moveNodes, endHistoryBatch]);
+
+  const handleRename = (group: Group) => {
+    if (readOnly) return;
+    const title = prompt("Enter group title:", group.title);
+    if (title !== null && title.trim() !== "") {
+      updateGroup(group.id, { title: title.trim() });
+    }
+  };
+
+  if (!groups || groups.length === 0) return null;
+
+  return (
+    <>
+      {groups.map((group) => {
+        const rect = group.collapsed
+          ? getCollapsedGroupRect(group, nodes, getNodeSize)
+          : getGroupRect(group, nodes, getNodeSize);
+        if (!rect) return null;
+
+        const color = group.color ?? theme.colors.primary;
+        const header = (
+          <GroupHeader
+            $color={color}
+            $readOnly={readOnly}
+            onMouseDown={(e) => handleDragStart(e, group)}
+            onDoubleClick={() => handleRename(group)}
+          >
+            <GroupTitle>{group.title}</GroupTitle>
+            {!readOnly && (
+              <>
+                <HeaderButton
+                  title={group.collapsed ? "Expand" : "Collapse"}
+                  onMouseDown={(e) => e.stopPropagation()}
+                  onClick={() => setGroupCollapsed(group.id, !group.collapsed)}
+                >
+                  {group.collapsed ? "▸" : "▾"}
+                </HeaderButton>
+                <HeaderButton
+                  title="Ungroup"
+                  onMouseDown={(e) => e.stopPropagation()}
+                  onClick={() => ungroup(group.id)}
+                >
+                  ✕
+                </HeaderButton>
+              </>
+            )}
+          </GroupHeader>
+        );
+        const style = {
+          left: rect.x,
+          top: rect.y,
+          width: rect.width,
+          height: rect.height,
+        };
+
+        return group.collapsed ? (
+          <CollapsedGroup
+            key={group.id}
+            $color={color}
+            $readOnly={readOnly}
+            style={style}
+            onMouseDown={(e) => handleDragStart(e, group)}
+          >
+            {header}
+            <CollapsedSummary>
+              {group.nodeIds.length}{" "}
+              {group.nodeIds.length === 1 ? "node" : "nodes"}
+            </CollapsedSummary>
+          </CollapsedGroup>
+        ) : (
+          <GroupFrame key={group.id} $color={color} style={style}>
+            {header}
+          </GroupFrame>
+        );
+      })}
+    </>
+  );
+};
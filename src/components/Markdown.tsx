@@ -0,0 +1,152 @@
+import type { FunctionComponent, ReactNode } from "react";
+import styled from "styled-components";
+
+const MarkdownContainer = styled.div`
+  font-size: 13px;
+  line-height: 1.4;
+  word-wrap: break-word;
+
+  h1,
+  h2,
+  h3,
+  p,
+  ul,
+  ol {
+    margin: 0 0 6px;
+  }
+
+  h1 {
+    font-size: 16px;
+  }
+
+  h2 {
+    font-size: 15px;
+  }
+
+  h3 {
+    font-size: 14px;
+  }
+
+  ul,
+  ol {
+    padding-left: 18px;
+  }
+
+  code {
+    padding: 0 3px;
+    border-radius: 3px;
+    background-color: rgba(0, 0, 0, 0.08);
+    font-size: 12px;
+  }
+
+  a {
+    color: inherit;
+  }
+`;
+
+// Bold, italic, inline code and links
+const INLINE_PATTERN =
+  /(\*\*[^*]+\*\*|\*[^*]+\*|`[^`]+`|\[[^\]]+\]\([^)\s]+\))/g;
+const LINK_PATTERN = /^\[([^\]]+)\]\(([^)\s]+)\)$/;
+const SAFE_URL_PATTERN = /^(https?:|mailto:)/i;
+
+const renderInline = (text: string): ReactNode[] =>
+  // Splitting on a capturing pattern puts the matches at odd indices
+  text.split(INLINE_PATTERN).map((part, index) => {
+    if (index % 2 === 0) return part;
+
+    if (part.startsWith("**")) {
+      return <strong key={index}>{part.slice(2, -2)}</strong>;
+    }
+    if (part.startsWith("*")) {
+      return <em key={index}>{part.slice(1, -1)}</em>;
+    }
+    if (part.startsWith("`")) {
+      return <code key={index}>{part.slice(1, -1)}</code>;
+    }
+
+    const link = LINK_PATTERN.exec(part);
+    if (link && SAFE_URL_PATTERN.test(link[2])) {
+      return (
+        <a key={index} href={link[2]} target="_blank" rel="noreferrer">
+          {link[1]}
+        </a>
+      );
+    }
+    return part;
+  });
+
+type Block =
+  | { type: "heading"; level: 1 | 2 | 3; text: string }
+  | { type: "list"; ordered: boolean; items: string[] }
+  | { type: "paragraph"; lines: string[] };
+
+const parseBlocks = (markdown: string): Block[] => {
+  const blocks: Block[] = [];
+
+  markdown.split("\n").forEach((rawLine) => {
+    const line = rawLine.trim();
+    const last = blocks[blocks.length - 1];
+
+    const heading = /^(#{1,3})\s+(.*)$/.exec(line);
+    const bullet = /^[-*]\s+(.*)$/.exec(line);
+    const numbered = /^\d+\.\s+(.*)$/.exec(line);
+    const item = bullet ?? numbered;
+
+    if (line === "") {
+      // A blank line ends the current paragraph or list
+      blocks.push({ type: "paragraph", lines: [] });
+    } else if (heading) {
+      blocks.push({
+        type: "heading",
+        level: heading[1].length as 1 | 2 | 3,
+        text: heading[2],
+      });
+    } else if (item) {
+      const ordered = numbered !== null;
+      if (last?.type === "list" && last.ordered === ordered) {
+        last.items.push(item[1]);
+      } else {
+        blocks.push({ type: "list", ordered, items: [item[1]] });
+      }
+    } else if (last?.type === "paragraph") {
+      last.lines.push(line);
+    } else {
+      blocks.push({ type: "paragraph", lines: [line] });
+    }
+  });
+
+  return blocks.filter(
+    (block) => block.type !== "paragraph" || block.lines.length > 0
+  );
+};
+
+interface MarkdownProps {
+  text: string;
+}
+
+/** Renders a small markdown subset: headings, lists, emphasis, code, links */
+export const Markdown: FunctionComponent<MarkdownProps> = ({ text }) => (
+  <MarkdownContainer>
+    {parseBlocks(text).map((block, index) => {
+      switch (block.type) {
+        case "heading": {
+          const Heading = `h${block.level}` as const;
+          return <Heading key={index}>{renderInline(block.text)}</Heading>;
+        }
+        case "list": {
+          const List = block.ordered ? "ol" : "ul";
+          return (
+            <List key={index}>
+              {block.items.map((listItem, itemIndex) => (
+                <li key={itemIndex}>{renderInline(listItem)}</li>
+              ))}
+            </List>
+          );
+        }
+        case "paragraph":
+          return <p key={index}>{renderInline(block.lines.join(" "))}</p>;
+      }
+    })}
+  </MarkdownContainer>
+);
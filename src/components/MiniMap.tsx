@@ -0,0 +1,238 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type FunctionComponent,
+} from "react";
+import styled, { useTheme } from "styled-components";
+import {
+  useNodes,
+  useGroups,
+  useViewState,
+  useViewportSize,
+  useUpdateViewState,
+  useNodeSizeGetter,
+} from "../stores/graphStore";
+import type { Node, Position, Rect } from "../types/graph";
+import { getNodeRect } from "../utils/graph";
+import { getCollapsedGroupRect, getVisibleNodes } from "../utils/groups";
+
+export type MiniMapPosition =
+  "top-left" | "top-right" | "bottom-left" | "bottom-right";
+
+export interface MiniMapProps {
+  /** Corner of the editor the minimap is pinned to (default: "bottom-right") */
+  position?: MiniMapPosition;
+  width?: number;
+  height?: number;
+  /** Fill of the node rectangles (default: the node type color) */
+  nodeColor?: string | ((node: Node) => string);
+}
+
+const MINIMAP_MARGIN = 12;
+const MINIMAP_PADDING = 40;
+
+// "bottom-right" pins the minimap with bottom and right offsets
+const getCornerStyle = (position: MiniMapPosition) => {
+  const [vertical, horizontal] = position.split("-");
+  return `${vertical}: ${MINIMAP_MARGIN}px; ${horizontal}: ${MINIMAP_MARGIN}px;`;
+};
+
+const MiniMapContainer = styled.div<{ $position: MiniMapPosition }>`
+  position: absolute;
+  ${(props) => getCornerStyle(props.$position)}
+  background-color: ${(props) => props.theme.colors.surface};
+  border: 1px solid ${(props) => props.theme.colors.border};
+  border-radius: ${(props) => props.theme.borderRadius.md};
+  box-shadow: ${(props) => props.theme.shadows.md};
+  overflow: hidden;
+  cursor: pointer;
+  z-index: 100;
+`;
+
+const ViewportRect = styled.rect`
+  fill: ${(props) => props.theme.colors.primary}1a;
+  stroke: ${(props) => props.theme.colors.primary};
+  stroke-width: 1.5;
+  vector-effect: non-scaling-stroke;
+`;
+
+interface MiniMapTransform {
+  bounds: Rect;
+  scale: number;
+  // Centers the bounds inside the minimap when aspect ratios differ
+  padding: Position;
+}
+
+export const MiniMap: FunctionComponent<MiniMapProps> = ({
+  position = "bottom-right",
+  width = 200,
+  height = 150,
+  nodeColor,
+}) => {
+  const theme = useTheme();
+  const nodes = useNodes();
+  const groups = useGroups();
+  const { zoom, offset } = useViewState();
+  const viewportSize = useViewportSize();
+  const updateViewState = useUpdateViewState();
+  const getNodeSize = useNodeSizeGetter();
+  const svgRef = useRef<SVGSVGElement>(null);
+  // Bounds are frozen while dragging so the map doesn't shift under the cursor
+  const [dragTransform, setDragTransform] = useState<MiniMapTransform | null>(
+    null
+  );
+
+  // Visible area of the canvas in world coordinates
+  const viewportRect = useMemo(
+    () => ({
+      x: -offset.x,
+      y: -offset.y,
+      width: viewportSize.width / zoom,
+      height: viewportSize.height / zoom,
+    }),
+    [offset, zoom, viewportSize]
+  );
+
+  // Nodes inside collapsed groups are drawn as their group's proxy
+  const visibleNodes = useMemo(
+    () => getVisibleNodes(nodes, groups),
+    [nodes, groups]
+  );
+  const groupProxies = useMemo(
+    () =>
+      (groups ?? []).flatMap((group) => {
+        const rect =
+          group.collapsed && getCollapsedGroupRect(group, nodes, getNodeSize);
+        return rect ? [{ group, rect }] : [];
+      }),
+    [groups, nodes, getNodeSize]
+  );
+
+  const liveTransform = useMemo((): MiniMapTransform => {
+    const rects = [
+      viewportRect,
+      ...visibleNodes.map((node) => getNodeRect(node, getNodeSize)),
+      ...groupProxies.map(({ rect }) => rect),
+    ];
+    const minX = Math.min(...rects.map((rect) => rect.x)) - MINIMAP_PADDING;
+    const minY = Math.min(...rects.map((rect) => rect.y)) - MINIMAP_PADDING;
+    const maxX =
+      Math.max(...rects.map((rect) => rect.x + rect.width)) + MINIMAP_PADDING;
+    const maxY =
+      Math.max(...rects.map((rect) => rect.y + rect.height)) + MINIMAP_PADDING;
+
+    const bounds = {
+      x: minX,
+      y: minY,
+      width: maxX - minX,
+      height: maxY - minY,
+    };
+    const scale = Math.min(width / bounds.width, height / bounds.height);
+    return {
+      bounds,
+      scale,
+      padding: {
+        x: (width - bounds.width * scale) / 2,
+        y: (height - bounds.height * scale) / 2,
+      },
+    };
+  }, [visibleNodes, groupProxies, getNodeSize, viewportRect, width, height]);
+
+  const transform = dragTransform ?? liveTransform;
+
+  const getNodeColor = (node: Node) => {
+    if (typeof nodeColor === "function") return nodeColor(node);
+    if (nodeColor) return nodeColor;
+    return (
+      (theme.colors as Record<string, string>)[node.type] ||
+      theme.colors.primary
+    );
+  };
+
+  // Centers the main canvas on the world point under the cursor
+  const panTo = useCallback(
+    (e: { clientX: number; clientY: number }, current: MiniMapTransform) => {
+      const rect = svgRef.current?.getBoundingClientRect();
+      if (!rect) return;
+
+      const worldX =
+        current.bounds.x +
+        (e.clientX - rect.left - current.padding.x) / current.scale;
+      const worldY =
+        current.bounds.y +
+        (e.clientY - rect.top - current.padding.y) / current.scale;
+
+      updateViewState({
+        offset: {
+          x: -(worldX - viewportSize.width / zoom / 2),
+          y: -(worldY - viewportSize.height / zoom / 2),
+        },
+      });
+    },
+    [viewportSize, zoom, updateViewState]
+  );
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDragTransform(liveTransform);
+    panTo(e, liveTransform);
+  };
+
+  useEffect(() => {
+    if (!dragTransform) return;
+
+    const handleMouseMove = (e: MouseEvent) => panTo(e, dragTransform);
+    const handleMouseUp = () => setDragTransform(null);
+
+    document.addEventListener("mousemove", handleMouseMove);
+    document.addEventListener("mouseup", handleMouseUp);
+    return () => {
+      document.removeEventListener("mousemove", handleMouseMove);
+      document.removeEventListener("mouseup", handleMouseUp);
+    };
+  }, [dragTransform, panTo]);
+
+  const { bounds, scale, padding } = transform;
+
+  return (
+    <MiniMapContainer
+      $position={position}
+      style={{ width, height }}
+      onMouseDown={handleMouseDown}
+    >
+      <svg ref={svgRef} width={width} height={height}>
+        <g
+          transform={`translate(${padding.x} ${padding.y}) scale(${scale}) translate(${-bounds.x} ${-bounds.y})`}
+        >
+          {visibleNodes.map((node) => (
+            <rect
+              key={node.id}
+              {...getNodeRect(node, getNodeSize)}
+              rx={8}
+              fill={getNodeColor(node)}
+            />
+          ))}
+          {groupProxies.map(({ group, rect }) => (
+            <rect
+              key={group.id}
+              {...rect}
+              rx={8}
+              fill={group.color ?? theme.colors.primary}
+            />
+          ))}
+          <ViewportRect
+            x={viewportRect.x}
+            y={viewportRect.y}
+            width={viewportRect.width}
+            height={viewportRect.height}
+          />
+        </g>
+      </svg>
+    </MiniMapContainer>
+  );
+};
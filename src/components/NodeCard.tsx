@@ -1,35 +1,108 @@
 import {
   useCallback,
+  useMemo,
   useRef,
   useState,
   useEffect,
   type FunctionComponent,
+  type ReactNode,
 } from "react";
-import styled from "styled-components";
-import type { Node, NodeType, Position } from "../types/graph";
+import styled, { keyframes, type DefaultTheme } from "styled-components";
+import type {
+  ConnectionValidation,
+  DiagnosticSeverity,
+  Node,
+  NodeRunStatus,
+  NodeType,
+  PortConfig,
+  Position,
+  Rect,
+  Size,
+} from "../types/graph";
+import type {
+  NodeComponent,
+  NodeComponentProps,
+  NodeRenderer,
+} from "../types/components";
 import {
-  useSelectedNode,
+  useIsNodeSelected,
   useViewState,
-  useConnectionState,
+  useConnectionSourcePort,
   useSetSelectedNode,
+  useToggleNodeSelection,
   useShowContextMenu,
   useStartConnection,
   useCompleteConnection,
-  useMoveNode,
+  useMoveNodes,
+  useUpdateNode,
+  useBeginHistoryBatch,
+  useEndHistoryBatch,
+  useNodeTypeConfig,
+  useGraphStoreApi,
+  useSetActiveGuides,
+  useResizeNode,
+  useSetNodeSize,
+  useReadOnly,
+  useNodeDiagnostics,
+  useNodeRunState,
 } from "../stores/graphStore";
+import {
+  createNodeSizeGetter,
+  getNodeRect,
+  getNodeSize,
+  getNodesBounds,
+  getNodeTypePorts,
+  getPortOffsetY,
+  getPortPosition,
+  hasNamedPorts,
+  NODE_HEADER_HEIGHT,
+  PORT_LIST_PADDING,
+  PORT_ROW_HEIGHT,
+  validateConnection,
+} from "../utils/graph";
+import { getAlignmentSnap, snapToGrid } from "../utils/snap";
+
+const getRunStatusColor = (theme: DefaultTheme, status?: NodeRunStatus) => {
+  switch (status) {
+    case "queued":
+      return theme.colors.textSecondary;
+    case "running":
+      return theme.colors.primary;
+    case "success":
+      return theme.colors.success;
+    case "error":
+      return theme.colors.error;
+    case "skipped":
+      return theme.colors.border;
+    default:
+      return undefined;
+  }
+};
 
-const NodeContainer = styled.div<{ $selected: boolean; $nodeType: NodeType }>`
+const NodeContainer = styled.div<{
+  $selected: boolean;
+  $nodeType: NodeType;
+  $readOnly: boolean;
+  $runStatus?: NodeRunStatus;
+}>`
   position: absolute;
-  width: 200px;
-  min-height: 80px;
+  box-sizing: border-box;
   background-color: ${(props) => props.theme.colors.surface};
   border: 2px solid
     ${(props) =>
       props.$selected ? props.theme.colors.primary : props.theme.colors.border};
   border-radius: ${(props) => props.theme.borderRadius.md};
   box-shadow: ${(props) => props.theme.shadows.md};
-  cursor: move;
+  cursor: ${(props) => (props.$readOnly ? "pointer" : "move")};
   user-select: none;
+  /* The run state rings the card, so the border still shows selection */
+  outline: ${(props) => {
+    const color = getRunStatusColor(props.theme, props.$runStatus);
+    if (!color) return "none";
+    return `2px ${props.$runStatus === "queued" ? "dashed" : "solid"} ${color}`;
+  }};
+  outline-offset: 2px;
+  opacity: ${(props) => (props.$runStatus === "skipped" ? 0.6 : 1)};
 
   &:hover {
     border-color: ${(props) => props.theme.colors.primary};
@@ -44,13 +117,34 @@ const NodeHeader = styled.div<{ $nodeType: NodeType }>`
     return color || props.theme.colors.primary;
   }};
   color: white;
-  padding: ${(props) => props.theme.spacing.sm};
+  height: ${NODE_HEADER_HEIGHT}px;
+  box-sizing: border-box;
+  display: flex;
+  align-items: center;
+  padding: 0 ${(props) => props.theme.spacing.sm};
+  white-space: nowrap;
+  overflow: hidden;
+  text-overflow: ellipsis;
   border-radius: ${(props) => props.theme.borderRadius.sm}
     ${(props) => props.theme.borderRadius.sm} 0 0;
   font-weight: 600;
   font-size: 14px;
 `;
 
+const PortList = styled.div`
+  padding: ${PORT_LIST_PADDING}px 0;
+`;
+
+const PortRow = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  height: ${PORT_ROW_HEIGHT}px;
+  padding: 0 ${(props) => props.theme.spacing.md};
+  font-size: 12px;
+  color: ${(props) => props.theme.colors.textSecondary};
+`;
+
 const NodeBody = styled.div`
   padding: ${(props) => props.theme.spacing.md};
   color: ${(props) => props.theme.colors.text};
@@ -80,7 +174,10 @@ const PortContainer = styled.div`
   }
 `;
 
-const InputPort = styled(PortContainer)<{ $allowMultiple?: boolean }>`
+const InputPort = styled(PortContainer)<{
+  $allowMultiple?: boolean;
+  $compatible?: boolean;
+}>`
   left: -8px;
 
   ${(props) =>
@@ -92,107 +189,477 @@ const InputPort = styled(PortContainer)<{ $allowMultiple?: boolean }>`
       background-color: ${props.theme.colors.success};
     }
   `}
+
+  ${(props) =>
+    props.$compatible === true &&
+    `
+    border-color: ${props.theme.colors.connectionActive};
+    box-shadow: 0 0 0 3px ${props.theme.colors.connectionActive}66;
+    &:hover {
+      border-color: ${props.theme.colors.connectionActive};
+      background-color: ${props.theme.colors.connectionActive};
+    }
+  `}
+
+  ${(props) =>
+    props.$compatible === false &&
+    `
+    border-color: ${props.theme.colors.connectionError};
+    opacity: 0.4;
+    cursor: not-allowed;
+    &:hover {
+      border-color: ${props.theme.colors.connectionError};
+      background-color: ${props.theme.colors.surface};
+    }
+  `}
 `;
 
 const OutputPort = styled(PortContainer)`
   right: -8px;
 `;
 
+const ResizeHandle = styled.div`
+  position: absolute;
+  right: 0;
+  bottom: 0;
+  width: 12px;
+  height: 12px;
+  cursor: nwse-resize;
+  opacity: 0;
+  background: linear-gradient(
+    135deg,
+    transparent 50%,
+    ${(props) => props.theme.colors.border} 50%
+  );
+  border-bottom-right-radius: ${(props) => props.theme.borderRadius.md};
+
+  ${NodeContainer}:hover & {
+    opacity: 1;
+  }
+`;
+
+const DiagnosticBadge = styled.div<{ $severity: DiagnosticSeverity }>`
+  position: absolute;
+  top: -9px;
+  right: -9px;
+  min-width: 18px;
+  height: 18px;
+  padding: 0 4px;
+  box-sizing: border-box;
+  border-radius: 9px;
+  background-color: ${(props) =>
+    props.$severity === "error"
+      ? props.theme.colors.error
+      : props.theme.colors.warning};
+  color: #ffffff;
+  font-size: 11px;
+  font-weight: 700;
+  line-height: 18px;
+  text-align: center;
+  cursor: help;
+`;
+
+const spin = keyframes`
+  to {
+    transform: rotate(360deg);
+  }
+`;
+
+const RunStatusBadge = styled.div<{ $status: NodeRunStatus }>`
+  position: absolute;
+  top: -9px;
+  left: -9px;
+  width: 18px;
+  height: 18px;
+  box-sizing: border-box;
+  border-radius: 50%;
+  background-color: ${(props) => getRunStatusColor(props.theme, props.$status)};
+  color: #ffffff;
+  font-size: 11px;
+  font-weight: 700;
+  line-height: 18px;
+  text-align: center;
+  cursor: help;
+`;
+
+const Spinner = styled.div`
+  position: absolute;
+  top: -9px;
+  left: -9px;
+  width: 18px;
+  height: 18px;
+  box-sizing: border-box;
+  border: 3px solid ${(props) => props.theme.colors.border};
+  border-top-color: ${(props) => props.theme.colors.primary};
+  border-radius: 50%;
+  background-color: ${(props) => props.theme.colors.surface};
+  animation: ${spin} 0.8s linear infinite;
+  cursor: help;
+`;
+
+const ProgressTrack = styled.div`
+  position: absolute;
+  left: 0;
+  right: 0;
+  bottom: 0;
+  height: 4px;
+  overflow: hidden;
+  background-color: ${(props) => props.theme.colors.border};
+  border-bottom-left-radius: ${(props) => props.theme.borderRadius.md};
+  border-bottom-right-radius: ${(props) => props.theme.borderRadius.md};
+  pointer-events: none;
+`;
+
+const ProgressFill = styled.div`
+  height: 100%;
+  background-color: ${(props) => props.theme.colors.primary};
+  transition: width 0.2s ease-out;
+`;
+
+const RUN_STATUS_SYMBOLS: Record<NodeRunStatus, string> = {
+  idle: "",
+  queued: "…",
+  running: "",
+  success: "✓",
+  error: "!",
+  skipped: "–",
+};
+
+const RUN_STATUS_LABELS: Record<NodeRunStatus, string> = {
+  idle: "Idle",
+  queued: "Queued",
+  running: "Running",
+  success: "Succeeded",
+  error: "Failed",
+  skipped: "Skipped",
+};
+
+const getPortLabel = (port?: PortConfig) => port && (port.label ?? port.id);
+
+const getPortTitle = (port: PortConfig, validation?: ConnectionValidation) => {
+  const title = port.dataType
+    ? `${getPortLabel(port)} (${port.dataType})`
+    : getPortLabel(port);
+  return validation && !validation.valid
+    ? `${title}: ${validation.reason}`
+    : title;
+};
+
+// Interactive elements inside custom node content don't start a drag
+const NO_DRAG_SELECTOR = "input, textarea, select, button, [data-nodrag]";
+
+const isNoDragTarget = (target: EventTarget) =>
+  target instanceof Element && target.closest(NO_DRAG_SELECTOR) !== null;
+
 interface NodeCardProps {
   node: Node;
+  nodeComponent?: NodeComponent;
+  renderNode?: NodeRenderer;
 }
 
-export const NodeCard: FunctionComponent<NodeCardProps> = ({ node }) => {
+interface DragStart {
+  mouse: Position;
+  // World positions of every dragged node when the drag started
+  positions: Record<string, Position>;
+  // Bounds of the dragged nodes and rects of the others, for alignment
+  bounds: Rect | null;
+  targets: Rect[];
+}
+
+interface ResizeStart {
+  mouse: Position;
+  size: Size;
+}
+
+export const NodeCard: FunctionComponent<NodeCardProps> = ({
+  node,
+  nodeComponent: CustomNode,
+  renderNode,
+}) => {
   const nodeRef = useRef<HTMLDivElement>(null);
   const [isDragging, setIsDragging] = useState(false);
-  const [dragStart, setDragStart] = useState<Position>({ x: 0, y: 0 });
-
-  const selectedNodeId = useSelectedNode();
+  const [dragStart, setDragStart] = useState<DragStart>({
+    mouse: { x: 0, y: 0 },
+    positions: {},
+    bounds: null,
+    targets: [],
+  });
+  const [resizeStart, setResizeStart] = useState<ResizeStart | null>(null);
+
+  const isSelected = useIsNodeSelected(node.id);
   const viewState = useViewState();
-  const connectionState = useConnectionState();
+  const connectionSourcePort = useConnectionSourcePort();
   const setSelectedNode = useSetSelectedNode();
+  const toggleNodeSelection = useToggleNodeSelection();
   const showContextMenu = useShowContextMenu();
   const startConnection = useStartConnection();
   const completeConnection = useCompleteConnection();
-  const moveNode = useMoveNode();
-
-  const isSelected = selectedNodeId === node.id;
+  const moveNodes = useMoveNodes();
+  const updateNode = useUpdateNode();
+  const beginHistoryBatch = useBeginHistoryBatch();
+  const endHistoryBatch = useEndHistoryBatch();
+  const setActiveGuides = useSetActiveGuides();
+  const resizeNode = useResizeNode();
+  const setNodeSize = useSetNodeSize();
+  const readOnly = useReadOnly();
+  const diagnostics = useNodeDiagnostics(node.id);
+  const runState = useNodeRunState(node.id);
+  const nodeTypeConfig = useNodeTypeConfig(node.type);
+  const store = useGraphStoreApi();
+
+  const { inputs, outputs } = useMemo(
+    () => getNodeTypePorts(nodeTypeConfig),
+    [nodeTypeConfig]
+  );
+  const namedPorts = hasNamedPorts(nodeTypeConfig);
+
+  // Which input ports accept the connection currently being dragged
+  const inputPortValidations = useMemo(() => {
+    if (!connectionSourcePort) return null;
+
+    const { graph, nodeTypeConfigMap, portCompatibility } = store.getState();
+    return new Map(
+      inputs.map((port) => [
+        port.id,
+        validateConnection(connectionSourcePort.nodeId, node.id, graph, {
+          sourcePortId: connectionSourcePort.portId,
+          targetPortId: port.id,
+          nodeTypeConfigMap,
+          portCompatibility,
+        }),
+      ])
+    );
+  }, [connectionSourcePort, inputs, node.id, store]);
 
   const handleMouseDown = useCallback(
     (e: React.MouseEvent) => {
       e.stopPropagation();
-      setSelectedNode(node.id);
 
-      if (e.button === 0) {
-        setIsDragging(true);
-        const screenX = node.position.x * viewState.zoom + viewState.offset.x;
-        const screenY = node.position.y * viewState.zoom + viewState.offset.y;
+      // Shift/Ctrl-click toggles the node without starting a drag
+      if (e.shiftKey || e.ctrlKey || e.metaKey) {
+        if (e.button === 0) {
+          toggleNodeSelection(node.id);
+        }
+        return;
+      }
+
+      // Keep an existing multi-selection so the whole group can be dragged
+      if (!isSelected) {
+        setSelectedNode(node.id);
+      }
 
+      if (e.button === 0 && !readOnly && !isNoDragTarget(e.target)) {
+        const { graph, selectedNodeIds, nodeSizes, nodeTypeConfigMap } =
+          store.getState();
+        const getSize = createNodeSizeGetter(nodeSizes, nodeTypeConfigMap);
+        const draggedNodeIds = isSelected
+          ? selectedNodeIds
+          : new Set([node.id]);
+        const positions: Record<string, Position> = {};
+        const targets: Rect[] = [];
+        graph.nodes.forEach((graphNode) => {
+          if (draggedNodeIds.has(graphNode.id)) {
+            positions[graphNode.id] = graphNode.position;
+          } else {
+            targets.push(getNodeRect(graphNode, getSize));
+          }
+        });
+
+        // The whole drag is recorded as a single undo step
+        beginHistoryBatch();
+        setIsDragging(true);
         setDragStart({
-          x: e.clientX - screenX,
-          y: e.clientY - screenY,
+          mouse: { x: e.clientX, y: e.clientY },
+          positions,
+          bounds: getNodesBounds(
+            graph.nodes.filter((graphNode) => draggedNodeIds.has(graphNode.id)),
+            getSize
+          ),
+          targets,
         });
       }
     },
-    [node.id, node.position, setSelectedNode, viewState]
+    [
+      node.id,
+      isSelected,
+      readOnly,
+      setSelectedNode,
+      toggleNodeSelection,
+      beginHistoryBatch,
+      store,
+    ]
   );
 
   const handleMouseMove = useCallback(
     (e: MouseEvent) => {
       if (isDragging) {
-        const screenX = e.clientX - dragStart.x;
-        const screenY = e.clientY - dragStart.y;
+        let dx = (e.clientX - dragStart.mouse.x) / viewState.zoom;
+        let dy = (e.clientY - dragStart.mouse.y) / viewState.zoom;
+
+        // The grabbed node snaps to the grid and the others keep their offset
+        const { snapOptions } = store.getState();
+        const start = dragStart.positions[node.id];
+        const gridDx = snapOptions.snapToGrid
+          ? snapToGrid(start.x + dx, snapOptions.gridSize) - start.x
+          : dx;
+        const gridDy = snapOptions.snapToGrid
+          ? snapToGrid(start.y + dy, snapOptions.gridSize) - start.y
+          : dy;
+
+        // Lining up with another node wins over the grid
+        if (snapOptions.alignmentGuides && dragStart.bounds) {
+          const { offset, guides } = getAlignmentSnap(
+            {
+              ...dragStart.bounds,
+              x: dragStart.bounds.x + dx,
+              y: dragStart.bounds.y + dy,
+            },
+            dragStart.targets,
+            snapOptions.snapThreshold / viewState.zoom
+          );
+          dx = offset.x !== undefined ? dx + offset.x : gridDx;
+          dy = offset.y !== undefined ? dy + offset.y : gridDy;
+          setActiveGuides(guides);
+        } else {
+          dx = gridDx;
+          dy = gridDy;
+        }
 
-        const newPosition = {
-          x: (screenX - viewState.offset.x) / viewState.zoom,
-          y: (screenY - viewState.offset.y) / viewState.zoom,
-        };
+        const newPositions: Record<string, Position> = {};
+        Object.entries(dragStart.positions).forEach(([nodeId, position]) => {
+          newPositions[nodeId] = { x: position.x + dx, y: position.y + dy };
+        });
 
-        moveNode(node.id, newPosition);
+        moveNodes(newPositions);
       }
     },
-    [isDragging, dragStart, moveNode, node.id, viewState]
+    [
+      isDragging,
+      dragStart,
+      moveNodes,
+      viewState.zoom,
+      node.id,
+      store,
+      setActiveGuides,
+    ]
   );
 
   const handleMouseUp = useCallback(() => {
     setIsDragging(false);
-  }, []);
+    setActiveGuides([]);
+    endHistoryBatch();
+  }, [endHistoryBatch, setActiveGuides]);
 
   const handleInputPortMouseDown = useCallback(
-    (e: React.MouseEvent) => {
+    (e: React.MouseEvent, portId: string) => {
       e.stopPropagation();
-      if (connectionState.isConnecting && connectionState.sourcePort) {
-        completeConnection(node.id);
+      if (connectionSourcePort && !readOnly) {
+        completeConnection(node.id, portId);
       }
     },
-    [node.id, completeConnection, connectionState]
+    [node.id, readOnly, completeConnection, connectionSourcePort]
   );
 
   const handleOutputPortMouseDown = useCallback(
-    (e: React.MouseEvent) => {
+    (e: React.MouseEvent, portId: string) => {
       e.stopPropagation();
-      const nodeWidth = 200;
-      const nodeHeight = 80;
-      const position = {
-        x: node.position.x + nodeWidth,
-        y: node.position.y + nodeHeight / 2,
-      };
+      if (readOnly) return;
+
+      const position = getPortPosition(
+        node,
+        "output",
+        portId,
+        nodeTypeConfig,
+        getNodeSize(
+          node,
+          store.getState().nodeSizes.get(node.id),
+          nodeTypeConfig
+        )
+      );
+
+      startConnection(node.id, position, portId);
+    },
+    [node, nodeTypeConfig, readOnly, startConnection, store]
+  );
 
-      startConnection(node.id, position);
+  const handleResizeMouseDown = useCallback(
+    (e: React.MouseEvent) => {
+      e.stopPropagation();
+      if (e.button !== 0) return;
+
+      const size = getNodeSize(
+        node,
+        store.getState().nodeSizes.get(node.id),
+        nodeTypeConfig
+      );
+      // The whole resize is recorded as a single undo step
+      beginHistoryBatch();
+      setResizeStart({ mouse: { x: e.clientX, y: e.clientY }, size });
     },
-    [node.id, node.position, startConnection]
+    [node, nodeTypeConfig, store, beginHistoryBatch]
   );
 
+  useEffect(() => {
+    if (!resizeStart) return;
+
+    const handleResizeMouseMove = (e: MouseEvent) => {
+      resizeNode(node.id, {
+        width:
+          resizeStart.size.width +
+          (e.clientX - resizeStart.mouse.x) / viewState.zoom,
+        height:
+          resizeStart.size.height +
+          (e.clientY - resizeStart.mouse.y) / viewState.zoom,
+      });
+    };
+    const handleResizeMouseUp = () => {
+      setResizeStart(null);
+      endHistoryBatch();
+    };
+
+    document.addEventListener("mousemove", handleResizeMouseMove);
+    document.addEventListener("mouseup", handleResizeMouseUp);
+    return () => {
+      document.removeEventListener("mousemove", handleResizeMouseMove);
+      document.removeEventListener("mouseup", handleResizeMouseUp);
+    };
+  }, [resizeStart, node.id, viewState.zoom, resizeNode, endHistoryBatch]);
+
+  // The rendered size can exceed the configured one, e.g. with custom
+  // content, so edges attach to the measured size
+  useEffect(() => {
+    const element = nodeRef.current;
+    if (!element || typeof ResizeObserver === "undefined") return;
+
+    const measure = () =>
+      setNodeSize(node.id, {
+        width: element.offsetWidth,
+        height: element.offsetHeight,
+      });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+
+    return () => {
+      observer.disconnect();
+      setNodeSize(node.id, null);
+    };
+  }, [node.id, setNodeSize]);
+
   const handleContextMenu = useCallback(
     (e: React.MouseEvent) => {
       e.preventDefault();
       e.stopPropagation();
 
-      if (node.contextMenuItems && node.contextMenuItems.length > 0) {
+      if (
+        !readOnly &&
+        node.contextMenuItems &&
+        node.contextMenuItems.length > 0
+      ) {
         showContextMenu("node", { x: e.clientX, y: e.clientY }, node.id);
       }
     },
-    [node.contextMenuItems, node.id, showContextMenu]
+    [node.contextMenuItems, node.id, readOnly, showContextMenu]
   );
 
   useEffect(() => {
@@ -207,6 +674,13 @@ export const NodeCard: FunctionComponent<NodeCardProps> = ({ node }) => {
     }
   }, [isDragging, handleMouseMove, handleMouseUp]);
 
+  const updateThisNode = useCallback(
+    (updates: Partial<Pick<Node, "title" | "payload">>) => {
+      if (!readOnly) updateNode(node.id, updates);
+    },
+    [node.id, readOnly, updateNode]
+  );
+
   const getNodeSummary = () => {
     const payloadEntries = Object.entries(node.payload);
     if (payloadEntries.length === 0) return "No configuration";
@@ -228,29 +702,130 @@ export const NodeCard: FunctionComponent<NodeCardProps> = ({ node }) => {
     return summary + (remaining > 0 ? ` (+${remaining} more)` : "");
   };
 
+  const componentProps: NodeComponentProps = {
+    node,
+    nodeTypeConfig,
+    selected: isSelected,
+    readOnly,
+    runState,
+    updateNode: updateThisNode,
+  };
+
+  // Custom content replaces the header and body, the card still owns the rest
+  let customContent: ReactNode = null;
+  if (CustomNode) {
+    customContent = <CustomNode {...componentProps} />;
+  } else if (renderNode) {
+    customContent = renderNode(componentProps);
+  }
+  const hasCustomContent =
+    customContent !== null && customContent !== undefined;
+  const size = getNodeSize(node, undefined, nodeTypeConfig);
+
+  const renderRunState = () => {
+    if (!runState) return null;
+    const title = runState.message
+      ? `${RUN_STATUS_LABELS[runState.status]}: ${runState.message}`
+      : RUN_STATUS_LABELS[runState.status];
+
+    if (runState.status !== "running") {
+      return (
+        <RunStatusBadge $status={runState.status} title={title}>
+          {RUN_STATUS_SYMBOLS[runState.status]}
+        </RunStatusBadge>
+      );
+    }
+
+    const progress = runState.progress;
+    return (
+      <>
+        <Spinner title={title} />
+        {progress !== undefined && (
+          <ProgressTrack>
+            {/* Inline width, so frequent updates don't generate classes */}
+            <ProgressFill
+              style={{ width: `${Math.min(Math.max(progress, 0), 1) * 100}%` }}
+            />
+          </ProgressTrack>
+        )}
+      </>
+    );
+  };
+
   return (
     <NodeContainer
       ref={nodeRef}
       $selected={isSelected}
       $nodeType={node.type}
+      $readOnly={readOnly}
+      $runStatus={runState?.status}
       style={{
         left: node.position.x,
         top: node.position.y,
+        width: size.width,
+        minHeight: size.height,
       }}
       onMouseDown={handleMouseDown}
       onContextMenu={handleContextMenu}
     >
-      <NodeHeader $nodeType={node.type}>{node.title}</NodeHeader>
-
-      <NodeBody>
-        <NodeSummary>{getNodeSummary()}</NodeSummary>
-      </NodeBody>
-
-      <InputPort
-        $allowMultiple={node.allowMultipleInputs}
-        onMouseDown={handleInputPortMouseDown}
-      />
-      <OutputPort onMouseDown={handleOutputPortMouseDown} />
+      {hasCustomContent ? (
+        customContent
+      ) : (
+        <>
+          <NodeHeader $nodeType={node.type}>{node.title}</NodeHeader>
+
+          {namedPorts && (
+            <PortList>
+              {Array.from(
+                { length: Math.max(inputs.length, outputs.length) },
+                (_, index) => (
+                  <PortRow key={index}>
+                    <span>{getPortLabel(inputs[index])}</span>
+                    <span>{getPortLabel(outputs[index])}</span>
+                  </PortRow>
+                )
+              )}
+            </PortList>
+          )}
+
+          <NodeBody>
+            <NodeSummary>{getNodeSummary()}</NodeSummary>
+          </NodeBody>
+        </>
+      )}
+
+      {inputs.map((port, index) => (
+        <InputPort
+          key={port.id}
+          title={getPortTitle(port, inputPortValidations?.get(port.id))}
+          $allowMultiple={port.allowMultiple ?? node.allowMultipleInputs}
+          $compatible={inputPortValidations?.get(port.id)?.valid}
+          style={namedPorts ? { top: getPortOffsetY(index) } : undefined}
+          onMouseDown={(e) => handleInputPortMouseDown(e, port.id)}
+        />
+      ))}
+      {outputs.map((port, index) => (
+        <OutputPort
+          key={port.id}
+          title={getPortTitle(port)}
+          style={namedPorts ? { top: getPortOffsetY(index) } : undefined}
+          onMouseDown={(e) => handleOutputPortMouseDown(e, port.id)}
+        />
+      ))}
+      {!readOnly && <ResizeHandle onMouseDown={handleResizeMouseDown} />}
+      {diagnostics && (
+        <DiagnosticBadge
+          $severity={
+            diagnostics.some((diagnostic) => diagnostic.severity === "error")
+              ? "error"
+              : "warning"
+          }
+          title={diagnostics.map((diagnostic) => diagnostic.message).join("\n")}
+        >
+          {diagnostics.length}
+        </DiagnosticBadge>
+      )}
+      {runState && renderRunState()}
     </NodeContainer>
   );
 };
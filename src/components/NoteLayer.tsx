@@ -0,0 +1,247 @@
+import {
+  useEffect,
+  useRef,
+  useState,
+  type FunctionComponent,
+  type KeyboardEvent,
+} from "react";
+import styled from "styled-components";
+import type { Note, Position, Size } from "../types/graph";
+import {
+  useNotes,
+  useViewState,
+  useUpdateNote,
+  useRemoveNote,
+  useBeginHistoryBatch,
+  useEndHistoryBatch,
+  useReadOnly,
+} from "../stores/graphStore";
+import { DEFAULT_NOTE_COLOR } from "../utils/notes";
+import { Markdown } from "./Markdown";
+
+const NoteContainer = styled.div<{ $color: string; $readOnly: boolean }>`
+  position: absolute;
+  box-sizing: border-box;
+  display: flex;
+  flex-direction: column;
+  background-color: ${(props) => props.$color};
+  color: #1f2937;
+  border-radius: ${(props) => props.theme.borderRadius.sm};
+  box-shadow: ${(props) => props.theme.shadows.md};
+  cursor: ${(props) => (props.$readOnly ? "default" : "move")};
+  overflow: hidden;
+`;
+
+const NoteToolbar = styled.div`
+  display: flex;
+  justify-content: flex-end;
+  height: 16px;
+  opacity: 0;
+
+  ${NoteContainer}:hover & {
+    opacity: 1;
+  }
+`;
+
+const NoteButton = styled.button`
+  border: none;
+  background: none;
+  padding: 0 6px;
+  color: inherit;
+  font-size: 11px;
+  cursor: pointer;
+`;
+
+const NoteContent = styled.div`
+  flex: 1;
+  padding: 0 ${(props) => props.theme.spacing.sm}
+    ${(props) => props.theme.spacing.sm};
+  overflow: auto;
+`;
+
+const NotePlaceholder = styled.div`
+  font-size: 13px;
+  opacity: 0.5;
+`;
+
+const NoteEditor = styled.textarea`
+  flex: 1;
+  margin: 0 ${(props) => props.theme.spacing.sm}
+    ${(props) => props.theme.spacing.sm};
+  padding: 4px;
+  border: none;
+  outline: 1px solid rgba(0, 0, 0, 0.2);
+  background: rgba(255, 255, 255, 0.5);
+  color: inherit;
+  font-family: ${(props) => props.theme.fonts.body};
+  font-size: 13px;
+  resize: none;
+  cursor: text;
+`;
+
+const NoteResizeHandle = styled.div`
+  position: absolute;
+  right: 0;
+  bottom: 0;
+  width: 12px;
+  height: 12px;
+  cursor: nwse-resize;
+  background: linear-gradient(135deg, transparent 50%, rgba(0, 0, 0, 0.2) 50%);
+`;
+
+type NoteDrag =
+  | { type: "move"; mouse: Position; position: Position }
+  | { type: "resize"; mouse: Position; size: Size };
+
+interface NoteCardProps {
+  note: Note;
+}
+
+const NoteCard: FunctionComponent<NoteCardProps> = ({ note }) => {
+  const [drag, setDrag] = useState<NoteDrag | null>(null);
+  const [draft, setDraft] = useState<string | null>(null);
+  // Set once the draft is saved or cancelled, so the blur that follows when
+  // the editor unmounts doesn't save it (again)
+  const draftClosedRef = useRef(false);
+
+  const { zoom } = useViewState();
+  const updateNote = useUpdateNote();
+  const removeNote = useRemoveNote();
+  const beginHistoryBatch = useBeginHistoryBatch();
+  const endHistoryBatch = useEndHistoryBatch();
+  const readOnly = useReadOnly();
+
+  const startDrag = (e: React.MouseEvent, type: NoteDrag["type"]) => {
+    e.stopPropagation();
+    if (e.button !== 0 || readOnly || draft !== null) return;
+
+    const mouse = { x: e.clientX, y: e.clientY };
+    // The whole drag is recorded as a single undo step
+    beginHistoryBatch();
+    setDrag(
+      type === "move"
+        ? { type, mouse, position: note.position }
+        : { type, mouse, size: note.size }
+    );
+  };
+
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const dx = (e.clientX - drag.mouse.x) / zoom;
+      const dy = (e.clientY - drag.mouse.y) / zoom;
+      updateNote(
+        note.id,
+        drag.type === "move"
+          ? { position: { x: drag.position.x + dx, y: drag.position.y + dy } }
+          : {
+              size: {
+                width: drag.size.width + dx,
+                height: drag.size.height + dy,
+              },
+            }
+      );
+    };
+    const handleMouseUp = () => {
+      setDrag(null);
+      endHistoryBatch();
+    };
+
+    document.addEventListener("mousemove", handleMouseMove);
+    document.addEventListener("mouseup", handleMouseUp);
+    return () => {
+      document.removeEventListener("mousemove", handleMouseMove);
+      document.removeEventListener("mouseup", handleMouseUp);
+    };
+  }, [drag, zoom, note.id, updateNote, endHistoryBatch]);
+
+  const startEditing = () => {
+    if (readOnly) return;
+    draftClosedRef.current = false;
+    setDraft(note.text);
+  };
+
+  const commitDraft = () => {
+    if (draftClosedRef.current) return;
+    draftClosedRef.current = true;
+
+    if (draft !== null && draft !== note.text) {
+      updateNote(note.id, { text: draft });
+    }
+    setDraft(null);
+  };
+
+  const handleEditorKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Escape") {
+      draftClosedRef.current = true;
+      setDraft(null);
+    } else if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+      commitDraft();
+    }
+  };
+
+  return (
+    <NoteContainer
+      $color={note.color ?? DEFAULT_NOTE_COLOR}
+      $readOnly={readOnly}
+      style={{
+        left: note.position.x,
+        top: note.position.y,
+        width: note.size.width,
+        height: note.size.height,
+      }}
+      onMouseDown={(e) => startDrag(e, "move")}
+      onDoubleClick={startEditing}
+    >
+      <NoteToolbar>
+        {!readOnly && (
+          <NoteButton
+            title="Delete note"
+            onMouseDown={(e) => e.stopPropagation()}
+            onClick={() => removeNote(note.id)}
+          >
+            ✕
+          </NoteButton>
+        )}
+      </NoteToolbar>
+
+      {draft !== null ? (
+        <NoteEditor
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commitDraft}
+          onKeyDown={handleEditorKeyDown}
+          onMouseDown={(e) => e.stopPropagation()}
+          onDoubleClick={(e) => e.stopPropagation()}
+        />
+      ) : (
+        <NoteContent>
+          {note.text ? (
+            <Markdown text={note.text} />
+          ) : (
+            !readOnly && <NotePlaceholder>Double-click to edit</NotePlaceholder>
+          )}
+        </NoteContent>
+      )}
+
+      {!readOnly && (
+        <NoteResizeHandle onMouseDown={(e) => startDrag(e, "resize")} />
+      )}
+    </NoteContainer>
+  );
+};
+
+/** Sticky notes, above group frames and below nodes */
+export const NoteLayer: FunctionComponent = () => {
+  const notes = useNotes();
+
+  return (
+    <>
+      {notes?.map((note) => (
+        <NoteCard key={note.id} note={note} />
+      ))}
+    </>
+  );
+};
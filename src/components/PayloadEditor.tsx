@@ -0,0 +1,438 @@
+import {
+  useId,
+  useMemo,
+  useState,
+  type FormEvent,
+  type FunctionComponent,
+  type KeyboardEvent,
+} from "react";
+import styled, { css } from "styled-components";
+import type { Node, ObjectPayloadSchema, PayloadSchema } from "../types/graph";
+import {
+  getSchemaDefault,
+  isPlainObject,
+  joinPath,
+  validatePayload,
+  type PayloadErrors,
+} from "../utils/schema";
+
+const Overlay = styled.div`
+  position: absolute;
+  inset: 0;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  background-color: rgba(0, 0, 0, 0.4);
+  z-index: 9998;
+`;
+
+const Dialog = styled.form`
+  display: flex;
+  flex-direction: column;
+  width: 380px;
+  max-width: calc(100% - 32px);
+  max-height: calc(100% - 32px);
+  background-color: ${(props) => props.theme.colors.surface};
+  border: 1px solid ${(props) => props.theme.colors.border};
+  border-radius: ${(props) => props.theme.borderRadius.md};
+  box-shadow: ${(props) => props.theme.shadows.lg};
+  color: ${(props) => props.theme.colors.text};
+  font-family: ${(props) => props.theme.fonts.body};
+  font-size: 13px;
+`;
+
+const DialogHeader = styled.div`
+  padding: ${(props) => props.theme.spacing.md};
+  border-bottom: 1px solid ${(props) => props.theme.colors.border};
+  font-family: ${(props) => props.theme.fonts.heading};
+  font-size: 15px;
+  font-weight: 600;
+`;
+
+const DialogBody = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: ${(props) => props.theme.spacing.md};
+  padding: ${(props) => props.theme.spacing.md};
+  overflow-y: auto;
+`;
+
+const DialogFooter = styled.div`
+  display: flex;
+  justify-content: flex-end;
+  gap: ${(props) => props.theme.spacing.sm};
+  padding: ${(props) => props.theme.spacing.md};
+  border-top: 1px solid ${(props) => props.theme.colors.border};
+`;
+
+const Button = styled.button<{ $primary?: boolean }>`
+  padding: ${(props) => `${props.theme.spacing.xs} ${props.theme.spacing.md}`};
+  border: 1px solid
+    ${(props) =>
+      props.$primary ? props.theme.colors.primary : props.theme.colors.border};
+  border-radius: ${(props) => props.theme.borderRadius.sm};
+  background-color: ${(props) =>
+    props.$primary ? props.theme.colors.primary : "transparent"};
+  color: ${(props) => props.theme.colors.text};
+  font-size: 13px;
+  cursor: pointer;
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+const Field = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: ${(props) => props.theme.spacing.xs};
+`;
+
+const FieldLabel = styled.label`
+  font-weight: 600;
+`;
+
+const FieldHint = styled.div`
+  color: ${(props) => props.theme.colors.textSecondary};
+  font-size: 12px;
+`;
+
+const FieldError = styled.div`
+  color: ${(props) => props.theme.colors.error};
+  font-size: 12px;
+`;
+
+const controlStyles = css<{ $invalid: boolean }>`
+  padding: ${(props) => `${props.theme.spacing.xs} ${props.theme.spacing.sm}`};
+  border: 1px solid
+    ${(props) =>
+      props.$invalid ? props.theme.colors.error : props.theme.colors.border};
+  border-radius: ${(props) => props.theme.borderRadius.sm};
+  background-color: ${(props) => props.theme.colors.background};
+  color: inherit;
+  font: inherit;
+`;
+
+const Input = styled.input<{ $invalid: boolean }>`
+  ${controlStyles}
+`;
+
+const Select = styled.select<{ $invalid: boolean }>`
+  ${controlStyles}
+`;
+
+const JsonEditor = styled.textarea<{ $invalid: boolean }>`
+  ${controlStyles}
+  min-height: 200px;
+  font-family: monospace;
+  resize: vertical;
+`;
+
+const Checkbox = styled.input`
+  align-self: flex-start;
+`;
+
+const Fieldset = styled.fieldset`
+  display: flex;
+  flex-direction: column;
+  gap: ${(props) => props.theme.spacing.sm};
+  margin: 0;
+  padding: ${(props) => props.theme.spacing.sm};
+  border: 1px solid ${(props) => props.theme.colors.border};
+  border-radius: ${(props) => props.theme.borderRadius.sm};
+`;
+
+const ArrayItem = styled.div`
+  display: flex;
+  align-items: flex-start;
+  gap: ${(props) => props.theme.spacing.sm};
+
+  & > :first-child {
+    flex: 1;
+  }
+`;
+
+const isEmptyInput = (value: unknown) => value === undefined || value === null;
+
+interface SchemaFieldProps {
+  schema: PayloadSchema;
+  label: string;
+  required?: boolean;
+  value: unknown;
+  path: string;
+  errors: PayloadErrors;
+  onChange: (value: unknown) => void;
+}
+
+const SchemaField: FunctionComponent<SchemaFieldProps> = ({
+  schema,
+  label,
+  required,
+  value,
+  path,
+  errors,
+  onChange,
+}) => {
+  const id = useId();
+  const error = errors[path];
+  const invalid = error !== undefined;
+
+  const renderControl = () => {
+    switch (schema.type) {
+      case "boolean":
+        return (
+          <Checkbox
+            id={id}
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => onChange(e.target.checked)}
+          />
+        );
+
+      case "string":
+      case "number":
+      case "integer": {
+        const isNumber = schema.type !== "string";
+        // Cleared fields are removed from the payload
+        const parse = (input: string) => {
+          if (input === "") return undefined;
+          return isNumber ? Number(input) : input;
+        };
+
+        if (schema.enum) {
+          return (
+            <Select
+              id={id}
+              $invalid={invalid}
+              value={isEmptyInput(value) ? "" : String(value)}
+              onChange={(e) => onChange(parse(e.target.value))}
+            >
+              <option value="">—</option>
+              {schema.enum.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </Select>
+          );
+        }
+        return (
+          <Input
+            id={id}
+            type={isNumber ? "number" : "text"}
+            step={schema.type === "integer" ? 1 : "any"}
+            $invalid={invalid}
+            value={isEmptyInput(value) ? "" : String(value)}
+            onChange={(e) => onChange(parse(e.target.value))}
+          />
+        );
+      }
+
+      case "array": {
+        const items = Array.isArray(value) ? value : [];
+        const canAdd =
+          schema.maxItems === undefined || items.length < schema.maxItems;
+        return (
+          <Fieldset id={id}>
+            {items.map((item, index) => (
+              <ArrayItem key={index}>
+                <SchemaField
+                  schema={schema.items}
+                  label={`${index + 1}`}
+                  value={item}
+                  path={joinPath(path, index)}
+                  errors={errors}
+                  onChange={(itemValue) =>
+                    onChange(
+                      items.map((other, otherIndex) =>
+                        otherIndex === index ? itemValue : other
+                      )
+                    )
+                  }
+                />
+                <Button
+                  type="button"
+                  title="Remove item"
+                  onClick={() =>
+                    onChange(items.filter((_, other) => other !== index))
+                  }
+                >
+                  ✕
+                </Button>
+              </ArrayItem>
+            ))}
+            <Button
+              type="button"
+              disabled={!canAdd}
+              onClick={() =>
+                onChange([...items, getSchemaDefault(schema.items)])
+              }
+            >
+              Add item
+            </Button>
+          </Fieldset>
+        );
+      }
+
+      case "object":
+        return (
+          <Fieldset id={id}>
+            <ObjectFields
+              schema={schema}
+              value={isPlainObject(value) ? value : {}}
+              path={path}
+              errors={errors}
+              onChange={onChange}
+            />
+          </Fieldset>
+        );
+    }
+  };
+
+  return (
+    <Field>
+      <FieldLabel htmlFor={id}>
+        {schema.title ?? label}
+        {required && " *"}
+      </FieldLabel>
+      {schema.description && <FieldHint>{schema.description}</FieldHint>}
+      {renderControl()}
+      {invalid && <FieldError>{error}</FieldError>}
+    </Field>
+  );
+};
+
+interface ObjectFieldsProps {
+  schema: ObjectPayloadSchema;
+  value: Record<string, unknown>;
+  path: string;
+  errors: PayloadErrors;
+  onChange: (value: Record<string, unknown>) => void;
+}
+
+const ObjectFields: FunctionComponent<ObjectFieldsProps> = ({
+  schema,
+  value,
+  path,
+  errors,
+  onChange,
+}) => (
+  <>
+    {Object.entries(schema.properties).map(([key, property]) => (
+      <SchemaField
+        key={key}
+        schema={property}
+        label={key}
+        required={schema.required?.includes(key)}
+        value={value[key]}
+        path={joinPath(path, key)}
+        errors={errors}
+        onChange={(propertyValue) => {
+          const next = { ...value };
+          if (propertyValue === undefined) {
+            delete next[key];
+          } else {
+            next[key] = propertyValue;
+          }
+          onChange(next);
+        }}
+      />
+    ))}
+  </>
+);
+
+interface PayloadEditorProps {
+  node: Node;
+  /** Without a schema the payload is edited as JSON */
+  schema?: ObjectPayloadSchema;
+  onSubmit: (payload: Record<string, unknown>) => void;
+  onClose: () => void;
+}
+
+/** Modal form editing a node's payload, validated against its schema */
+export const PayloadEditor: FunctionComponent<PayloadEditorProps> = ({
+  node,
+  schema,
+  onSubmit,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState(node.payload);
+  const [json, setJson] = useState(() => JSON.stringify(node.payload, null, 2));
+  // Errors show up after the first save, then follow every change
+  const [showErrors, setShowErrors] = useState(false);
+
+  const errors = useMemo((): PayloadErrors => {
+    if (schema) return validatePayload(draft, schema);
+
+    try {
+      return isPlainObject(JSON.parse(json))
+        ? {}
+        : { "": "Must be a JSON object" };
+    } catch {
+      return { "": "Invalid JSON format" };
+    }
+  }, [schema, draft, json]);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    setShowErrors(true);
+    if (Object.keys(errors).length > 0) return;
+
+    onSubmit(schema ? draft : JSON.parse(json));
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    // Keeps the editor's shortcuts, e.g. delete, away from the form
+    e.stopPropagation();
+    if (e.key === "Escape") {
+      onClose();
+    }
+  };
+
+  const visibleErrors = showErrors ? errors : {};
+
+  return (
+    <Overlay onMouseDown={onClose}>
+      <Dialog
+        onSubmit={handleSubmit}
+        onKeyDown={handleKeyDown}
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <DialogHeader>{node.title} Properties</DialogHeader>
+        <DialogBody>
+          {schema ? (
+            <ObjectFields
+              schema={schema}
+              value={draft}
+              path=""
+              errors={visibleErrors}
+              onChange={setDraft}
+            />
+          ) : (
+            <Field>
+              <JsonEditor
+                autoFocus
+                spellCheck={false}
+                $invalid={visibleErrors[""] !== undefined}
+                value={json}
+                onChange={(e) => setJson(e.target.value)}
+              />
+              {visibleErrors[""] && (
+                <FieldError>{visibleErrors[""]}</FieldError>
+              )}
+            </Field>
+          )}
+        </DialogBody>
+        <DialogFooter>
+          <Button type="button" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" $primary>
+            Save
+          </Button>
+        </DialogFooter>
+      </Dialog>
+    </Overlay>
+  );
+};
@@ -1,7 +1,67 @@
-import { GraphEditor, type GraphEditorConfig } from "./GraphEditor";
+import {
+  GraphEditor,
+  type GraphEditorConfig,
+  type GraphEditorHandle,
+} from "./GraphEditor";
 
 export { GraphEditor };
-export type { GraphEditorConfig };
+export type { GraphEditorConfig, GraphEditorHandle };
+export { GraphViewer } from "./GraphViewer";
+export type { GraphViewerProps } from "./GraphViewer";
+export { GraphStoreProvider } from "./stores/GraphStoreProvider";
+export { MiniMap } from "./components/MiniMap";
+export type { MiniMapProps, MiniMapPosition } from "./components/MiniMap";
+export {
+  useUndo,
+  useRedo,
+  useCanUndo,
+  useCanRedo,
+  useClearHistory,
+  useAutoLayout,
+  useFitView,
+  useFitSelection,
+  useFocusNode,
+  useApplyChanges,
+  useResizeNode,
+  useGroupNodes,
+  useUngroup,
+  useUpdateGroup,
+  useSetGroupCollapsed,
+  useAddNote,
+  useUpdateNote,
+  useRemoveNote,
+  useReadOnly,
+  useSetReadOnly,
+  useDiagnostics,
+  useIsExecuting,
+  useStartExecution,
+  useCancelExecution,
+  useClearExecutionCache,
+  useNodeRunState,
+  useNodeRunStates,
+  useSetNodeRunStates,
+  useClearNodeRunStates,
+} from "./stores/graphStore";
+export { applyChanges, getGraphChanges } from "./utils/changes";
+export type { ViewportOptions } from "./utils/viewport";
+export { snapToGrid, getAlignmentSnap } from "./utils/snap";
+export type { SnapOptions, AlignmentGuide } from "./utils/snap";
+export { getDefaultPayload, validatePayload } from "./utils/schema";
+export type { PayloadErrors } from "./utils/schema";
+export { DEFAULT_VALIDATION_RULES, validateGraph } from "./utils/validation";
+export type { ValidationRule, ValidationContext } from "./utils/validation";
+export { executeGraph, createExecutionCache } from "./utils/execution";
+export type {
+  ExecutionOptions,
+  ExecutionResult,
+  ExecutionCache,
+  NodeExecutionStatus,
+  NodeOutputs,
+} from "./utils/execution";
+export { DEFAULT_KEYMAP } from "./utils/keymap";
+export type { Keymap, KeyAction, KeyBinding } from "./utils/keymap";
+export { computeLayout, layoutGraph } from "./utils/layout";
+export type { LayoutOptions, LayoutDirection } from "./utils/layout";
 export type {
   Graph,
   Node,
@@ -13,6 +73,31 @@ export type {
   ContextMenuItem,
   CanvasContextMenuItem,
   Port,
+  PortConfig,
+  PortCompatibility,
+  ConnectionValidation,
+  ConnectionErrorCode,
+  EdgePathStyle,
+  GraphChange,
+  Group,
+  Note,
+  Size,
+  PayloadSchema,
+  ObjectPayloadSchema,
+  GraphDiagnostic,
+  DiagnosticSeverity,
+  NodeExecutor,
+  NodeExecutionContext,
+  NodeRunStatus,
+  NodeRunState,
 } from "./types/graph";
+export type {
+  NodeComponentProps,
+  NodeComponent,
+  NodeRenderer,
+  EdgeComponentProps,
+  EdgeComponent,
+  EdgeRenderer,
+} from "./types/components";
 export type { Theme } from "./types/theme";
 export { defaultTheme } from "./types/theme";
@@ -0,0 +1,23 @@
+import { useState, type FunctionComponent, type ReactNode } from "react";
+import { createGraphStore, GraphStoreContext } from "./graphStore";
+
+interface GraphStoreProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Holds the store of one editor. GraphEditor creates its own unless it is
+ * rendered inside a provider, which lets toolbars next to the editor use the
+ * store hooks too.
+ */
+export const GraphStoreProvider: FunctionComponent<GraphStoreProviderProps> = ({
+  children,
+}) => {
+  const [store] = useState(createGraphStore);
+
+  return (
+    <GraphStoreContext.Provider value={store}>
+      {children}
+    </GraphStoreContext.Provider>
+  );
+};
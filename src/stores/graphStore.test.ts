@@ -0,0 +1,247 @@
+import { describe, expect, it, vi } from "vitest";
+import { createGraphStore, type GraphStoreApi } from "./graphStore";
+import type { GraphChange } from "../types/graph";
+import {
+  createTestEdge,
+  createTestGraph,
+  createTestNode,
+} from "../test/fixtures";
+
+const setup = () => {
+  const store = createGraphStore();
+  store.getState().setInitialGraph(
+    createTestGraph({
+      nodes: [
+        createTestNode("a"),
+        createTestNode("b", { position: { x: 300, y: 0 } }),
+      ],
+      edges: [createTestEdge("a", "b")],
+    })
+  );
+  return store;
+};
+
+const getNodeIds = (store: GraphStoreApi) =>
+  store.getState().graph.nodes.map((node) => node.id);
+
+describe("history", () => {
+  it("undoes and redoes an edit", () => {
+    const store = setup();
+    store.getState().removeNodeById("a");
+
+    store.getState().undo();
+    expect(getNodeIds(store)).toEqual(["a", "b"]);
+
+    store.getState().redo();
+    expect(getNodeIds(store)).toEqual(["b"]);
+  });
+
+  it("clears the redo stack on a new edit", () => {
+    const store = setup();
+    store.getState().removeNodeById("a");
+    store.getState().undo();
+    store.getState().removeNodeById("b");
+
+    expect(store.getState().history.future).toHaveLength(0);
+  });
+
+  it("records a batch as a single step", () => {
+    const store = setup();
+    store.getState().beginHistoryBatch();
+    store.getState().moveNode("a", { x: 10, y: 0 });
+    store.getState().moveNode("a", { x: 20, y: 0 });
+    store.getState().endHistoryBatch();
+
+    expect(store.getState().history.past).toHaveLength(1);
+    store.getState().undo();
+    expect(store.getState().graph.nodes[0].position).toEqual({ x: 0, y: 0 });
+  });
+
+  it("keeps at most historyLimit steps", () => {
+    const store = setup();
+    store.getState().setHistoryLimit(2);
+    store.getState().moveNode("a", { x: 10, y: 0 });
+    store.getState().moveNode("a", { x: 20, y: 0 });
+    store.getState().moveNode("a", { x: 30, y: 0 });
+
+    expect(store.getState().history.past).toHaveLength(2);
+  });
+
+  it("ignores edits of unknown nodes, edges, groups and notes", () => {
+    const store = setup();
+    store.getState().updateNode("missing", { title: "Missing" });
+    store.getState().moveNode("missing", { x: 10, y: 0 });
+    store.getState().removeEdgeById("missing");
+    store.getState().updateEdge("missing", { label: "Missing" });
+    store.getState().updateGroup("missing", { title: "Missing" });
+    store.getState().ungroup("missing");
+    store.getState().setGroupCollapsed("missing", true);
+    store.getState().updateNote("missing", { text: "Missing" });
+    store.getState().removeNote("missing");
+
+    expect(store.getState().history.past).toHaveLength(0);
+  });
+});
+
+describe("applyChanges", () => {
+  it("records the applied changes as one step", () => {
+    const store = setup();
+    store.getState().applyChanges([
+      { type: "node-added", node: createTestNode("c") },
+      { type: "edge-added", edge: createTestEdge("b", "c") },
+    ]);
+
+    expect(getNodeIds(store)).toEqual(["a", "b", "c"]);
+    expect(store.getState().history.past).toHaveLength(1);
+
+    store.getState().undo();
+    expect(getNodeIds(store)).toEqual(["a", "b"]);
+  });
+
+  it("records applied group changes", () => {
+    const store = setup();
+    store
+      .getState()
+      .applyChanges([
+        { type: "group-added", group: { id: "g", title: "G", nodeIds: ["a"] } },
+      ]);
+
+    expect(store.getState().history.past).toHaveLength(1);
+  });
+
+  it("doesn't record viewport changes", () => {
+    const store = setup();
+    const { viewState } = store.getState().graph;
+    store.getState().applyChanges([
+      {
+        type: "viewport-changed",
+        before: viewState,
+        after: { ...viewState, zoom: 2 },
+      },
+    ]);
+
+    expect(store.getState().graph.viewState.zoom).toBe(2);
+    expect(store.getState().history.past).toHaveLength(0);
+  });
+});
+
+describe("controlled mode", () => {
+  const setupControlled = () => {
+    const store = setup();
+    const onChanges = vi.fn<(changes: GraphChange[]) => void>();
+    store.getState().setOnChanges(onChanges);
+    store.getState().setControlled(true);
+    return { store, onChanges };
+  };
+
+  it("proposes an edit without applying it", () => {
+    const { store, onChanges } = setupControlled();
+    const [a] = store.getState().graph.nodes;
+    const [edge] = store.getState().graph.edges;
+    store.getState().removeNodeById("a");
+
+    expect(getNodeIds(store)).toEqual(["a", "b"]);
+    expect(onChanges).toHaveBeenCalledWith([
+      { type: "edge-removed", edge },
+      { type: "node-removed", node: a },
+    ]);
+  });
+
+  it("doesn't call the legacy callbacks for proposals", () => {
+    const { store } = setupControlled();
+    const onNodeChange = vi.fn();
+    const onEdgeChange = vi.fn();
+    const onGraphChange = vi.fn();
+    store.getState().setOnNodeChange(onNodeChange);
+    store.getState().setOnEdgeChange(onEdgeChange);
+    store.getState().setOnGraphChange(onGraphChange);
+
+    store.getState().updateNode("a", { title: "A" });
+    store.getState().moveNode("a", { x: 10, y: 0 });
+    store.getState().moveNodes({ b: { x: 10, y: 0 } });
+    store.getState().updateEdge("a-b", { label: "Label" });
+    store.getState().removeEdgeById("a-b");
+    store.getState().removeNodeById("a");
+
+    expect(onNodeChange).not.toHaveBeenCalled();
+    expect(onEdgeChange).not.toHaveBeenCalled();
+    expect(onGraphChange).not.toHaveBeenCalled();
+  });
+
+  it("keeps proposals out of the history and the selection", () => {
+    const { store } = setupControlled();
+    store.getState().pasteSubgraph(
+      {
+        format: "react-graph-tree/subgraph",
+        version: 1,
+        nodes: [createTestNode("c")],
+        edges: [],
+      },
+      { x: 0, y: 200 }
+    );
+
+    expect(store.getState().history.past).toHaveLength(0);
+    expect(store.getState().selectedNodeIds.size).toBe(0);
+  });
+
+  it("proposes a batch once, when it ends", () => {
+    const { store, onChanges } = setupControlled();
+    store.getState().beginHistoryBatch();
+    store.getState().moveNode("a", { x: 10, y: 0 });
+    store.getState().moveNode("a", { x: 20, y: 0 });
+    expect(onChanges).not.toHaveBeenCalled();
+
+    store.getState().endHistoryBatch();
+    expect(onChanges).toHaveBeenCalledTimes(1);
+    expect(onChanges).toHaveBeenCalledWith([
+      {
+        type: "node-moved",
+        nodeId: "a",
+        from: { x: 0, y: 0 },
+        to: { x: 20, y: 0 },
+      },
+    ]);
+    expect(store.getState().graph.nodes[0].position).toEqual({ x: 0, y: 0 });
+  });
+
+  it("records commits and proposes undo and redo", () => {
+    const { store, onChanges } = setupControlled();
+    const initial = store.getState().graph;
+    const [a, b] = initial.nodes;
+    const [edge] = initial.edges;
+    const committed = { ...initial, nodes: [b], edges: [] };
+    store.getState().syncGraph(committed);
+    expect(store.getState().history.past).toHaveLength(1);
+
+    store.getState().undo();
+    expect(getNodeIds(store)).toEqual(["b"]);
+    expect(onChanges).toHaveBeenLastCalledWith([
+      { type: "node-added", node: a },
+      { type: "edge-added", edge },
+    ]);
+
+    store.getState().syncGraph(initial);
+    expect(store.getState().history.past).toHaveLength(0);
+    expect(store.getState().history.future).toHaveLength(1);
+
+    store.getState().redo();
+    expect(onChanges).toHaveBeenLastCalledWith([
+      { type: "edge-removed", edge },
+      { type: "node-removed", node: a },
+    ]);
+    store.getState().syncGraph(committed);
+    expect(store.getState().history.past).toHaveLength(1);
+    expect(store.getState().history.future).toHaveLength(0);
+  });
+});
+
+describe("createGraphStore", () => {
+  it("keeps the state of each store separate", () => {
+    const first = setup();
+    const second = setup();
+    first.getState().removeNodeById("a");
+
+    expect(getNodeIds(first)).toEqual(["b"]);
+    expect(getNodeIds(second)).toEqual(["a", "b"]);
+  });
+});
@@ -1,4 +1,5 @@
-import { create } from "zustand";
+import { createContext, useContext, useMemo } from "react";
+import { createStore, useStore } from "zustand";
 import { subscribeWithSelector } from "zustand/middleware";
 import type {
   Graph,
@@ -9,64 +10,213 @@ import type {
   NodeType,
   ContextMenuState,
   NodeTypeConfig,
+  Rect,
+  GraphClipboardData,
+  PortCompatibility,
+  Size,
+  ViewState,
+  GraphChange,
+  Group,
+  Note,
+  GraphDiagnostic,
+  NodeRunState,
 } from "../types/graph";
 import {
   createNode,
   createEdge,
   validateConnection,
-  removeNode,
+  removeNodes,
   removeEdge,
   updateNodePosition,
+  cloneSubgraph,
+  getNodesInRect,
+  getNodesBounds,
+  clampNodeSize,
+  createNodeSizeGetter,
 } from "../utils/graph";
+import { computeLayout } from "../utils/layout";
+import type { LayoutOptions } from "../utils/layout";
+import { applyChanges, getGraphChanges } from "../utils/changes";
+import {
+  clampZoom,
+  easeInOutCubic,
+  getViewStateForBounds,
+  getViewStateForCenter,
+  getViewportCenter,
+  DEFAULT_VIEWPORT_DURATION,
+} from "../utils/viewport";
+import type { ViewportOptions } from "../utils/viewport";
+import { DEFAULT_SNAP_OPTIONS } from "../utils/snap";
+import type { AlignmentGuide, SnapOptions } from "../utils/snap";
+import {
+  addGroup,
+  createGroup,
+  getCollapsedGroupsByNodeId,
+  removeGroupMembers,
+} from "../utils/groups";
+import { clampNoteSize, createNote } from "../utils/notes";
+import { getDefaultPayload } from "../utils/schema";
+import { isSameDiagnostics } from "../utils/validation";
+import {
+  createExecutionCache,
+  executeGraph,
+  type ExecutionOptions,
+  type ExecutionResult,
+  type NodeExecutionStatus,
+} from "../utils/execution";
+
+type GraphSnapshot = Pick<Graph, "nodes" | "edges" | "groups" | "notes">;
 
 interface GraphState {
   graph: Graph;
 }
 
+interface HistoryState {
+  history: {
+    past: GraphSnapshot[];
+    future: GraphSnapshot[];
+  };
+  historyLimit: number;
+}
+
 interface UIState {
-  selectedNodeId: string | null;
+  selectedNodeIds: Set<string>;
+  selectedEdgeId: string | null;
   connectionState: ConnectionState;
   contextMenuState: ContextMenuState;
+  /** Size of the editor's visible area in screen pixels */
+  viewportSize: Size;
+  /** Rendered node sizes measured by the node cards */
+  nodeSizes: Map<string, Size>;
+  /** Guides shown while the dragged nodes line up with other nodes */
+  activeGuides: AlignmentGuide[];
+  /** Problems found by the validation rules, also grouped per node and edge */
+  diagnostics: GraphDiagnostic[];
+  nodeDiagnostics: Map<string, GraphDiagnostic[]>;
+  edgeDiagnostics: Map<string, GraphDiagnostic[]>;
+}
+
+interface ExecutionState {
+  /** A run started by startExecution is in progress */
+  isExecuting: boolean;
+  /** Run state shown on each node, idle nodes have no entry */
+  nodeRunStates: Map<string, NodeRunState>;
+  /** Nodes whose status is "running", kept while only progress changes */
+  runningNodeIds: Set<string>;
 }
 
 interface CallbackState {
   nodeTypeConfigMap?: Map<string, NodeTypeConfig>;
+  /** Edits are only proposed through onChanges, the host commits them */
+  controlled: boolean;
+  /** Turns off every user edit, keeping pan, zoom and selection */
+  readOnly: boolean;
+  snapOptions: SnapOptions;
+  portCompatibility?: PortCompatibility;
   onNodeChange?: (
     nodeId: string,
     changeType: "title" | "payload" | "position",
     data?: unknown
   ) => void | Promise<void>;
+  onEdgeChange?: (
+    edgeId: string,
+    changeType: "label" | "payload",
+    data?: unknown
+  ) => void | Promise<void>;
   onGraphChange?: (
     graph: Graph,
     node?: Node,
     edges?: Edge[]
   ) => void | Promise<void>;
+  onChanges?: (changes: GraphChange[]) => void | Promise<void>;
 }
 
 interface GraphActions {
   setInitialGraph: (graph: Graph) => void;
+  /** Replaces nodes and edges without reporting changes, keeping the view */
+  syncGraph: (graph: Graph) => void;
+  /** Applies changes from elsewhere, e.g. a backend, without reporting them */
+  applyChanges: (changes: GraphChange[]) => void;
   addNode: (
     type: NodeType,
     position: Position,
-    options?: { title?: string }
-  ) => void;
+    options?: { title?: string; payload?: Record<string, unknown> }
+  ) => Node;
   removeNodeById: (nodeId: string) => void;
+  removeNodes: (nodeIds: string[]) => void;
   updateNode: (nodeId: string, updates: Partial<Node>) => void;
   moveNode: (nodeId: string, position: Position) => void;
+  moveNodes: (positions: Record<string, Position>) => void;
+  /** Sets the size of a node, kept within the limits of its type */
+  resizeNode: (nodeId: string, size: Size) => void;
   duplicateNode: (nodeId: string) => void;
+  duplicateNodes: (nodeIds: string[]) => void;
   disconnectAllFromNode: (nodeId: string) => void;
-  addEdge: (sourceNodeId: string, targetNodeId: string) => boolean;
+  disconnectAllFromNodes: (nodeIds: string[]) => void;
+  pasteSubgraph: (data: GraphClipboardData, position: Position) => void;
+  autoLayout: (options?: LayoutOptions, nodeIds?: string[]) => void;
+  /** Groups the nodes, taking them out of their previous groups */
+  groupNodes: (
+    nodeIds: string[],
+    options?: { title?: string; color?: string }
+  ) => Group | null;
+  /** Removes the group, keeping its nodes */
+  ungroup: (groupId: string) => void;
+  updateGroup: (
+    groupId: string,
+    updates: Partial<Pick<Group, "title" | "color">>
+  ) => void;
+  setGroupCollapsed: (groupId: string, collapsed: boolean) => void;
+  addNote: (
+    position: Position,
+    options?: Partial<Pick<Note, "text" | "size" | "color">>
+  ) => Note;
+  updateNote: (
+    noteId: string,
+    updates: Partial<Pick<Note, "text" | "position" | "size" | "color">>
+  ) => void;
+  removeNote: (noteId: string) => void;
+  addEdge: (
+    sourceNodeId: string,
+    targetNodeId: string,
+    sourcePortId?: string,
+    targetPortId?: string
+  ) => Edge | null;
   removeEdgeById: (edgeId: string) => void;
+  updateEdge: (
+    edgeId: string,
+    updates: Partial<Pick<Edge, "label" | "payload" | "type" | "pathStyle">>
+  ) => void;
   setZoom: (zoom: number) => void;
   setOffset: (offset: Position) => void;
   updateViewState: (updates: Partial<Graph["viewState"]>) => void;
+  fitView: (options?: ViewportOptions) => void;
+  fitSelection: (options?: ViewportOptions) => void;
+  focusNode: (nodeId: string, options?: ViewportOptions) => void;
+}
+
+interface HistoryActions {
+  undo: () => void;
+  redo: () => void;
+  beginHistoryBatch: () => void;
+  endHistoryBatch: () => void;
+  clearHistory: () => void;
+  setHistoryLimit: (limit: number) => void;
 }
 
 interface UIActions {
   setSelectedNode: (nodeId: string | null) => void;
-  startConnection: (sourceNodeId: string, position: Position) => void;
+  setSelectedNodes: (nodeIds: string[]) => void;
+  toggleNodeSelection: (nodeId: string) => void;
+  selectNodesInRect: (rect: Rect, additive?: boolean) => void;
+  setSelectedEdge: (edgeId: string | null) => void;
+  startConnection: (
+    sourceNodeId: string,
+    position: Position,
+    portId?: string
+  ) => void;
   updateConnectionPosition: (position: Position) => void;
-  completeConnection: (targetNodeId: string) => boolean;
+  completeConnection: (targetNodeId: string, portId?: string) => boolean;
   cancelConnection: () => void;
   showContextMenu: (
     type: "canvas" | "node",
@@ -74,11 +224,40 @@ interface UIActions {
     nodeId?: string,
     canvasPosition?: Position
   ) => void;
+  showEdgeContextMenu: (
+    position: { x: number; y: number },
+    edgeId: string
+  ) => void;
   hideContextMenu: () => void;
+  setViewportSize: (size: Size) => void;
+  setActiveGuides: (guides: AlignmentGuide[]) => void;
+  setDiagnostics: (diagnostics: GraphDiagnostic[]) => void;
+  /** Records the rendered size of a node, null once it is unmounted */
+  setNodeSize: (nodeId: string, size: Size | null) => void;
+}
+
+interface ExecutionActions {
+  /**
+   * Runs the graph with each node type's execute handler, cancelling the
+   * run in progress. Outputs are cached, so only nodes whose payload or
+   * inputs changed since an earlier run execute again
+   */
+  startExecution: (
+    options?: Pick<ExecutionOptions, "nodeIds" | "concurrency">
+  ) => Promise<ExecutionResult>;
+  cancelExecution: () => void;
+  clearExecutionCache: () => void;
+  /**
+   * Merges run states into the ones shown, e.g. pushed from a backend.
+   * null or "idle" removes a node's state
+   */
+  setNodeRunStates: (updates: Record<string, NodeRunState | null>) => void;
+  clearNodeRunStates: () => void;
 }
 
 interface CallbackActions {
   setNodeTypeConfigMap: (configMap: Map<string, NodeTypeConfig>) => void;
+  setPortCompatibility: (compatibility?: PortCompatibility) => void;
   setOnNodeChange: (
     callback: (
       nodeId: string,
@@ -86,6 +265,13 @@ interface CallbackActions {
       data?: unknown
     ) => void | Promise<void>
   ) => void;
+  setOnEdgeChange: (
+    callback: (
+      edgeId: string,
+      changeType: "label" | "payload",
+      data?: unknown
+    ) => void | Promise<void>
+  ) => void;
   setOnGraphChange: (
     callback: (
       graph: Graph,
@@ -93,15 +279,54 @@ interface CallbackActions {
       edges?: Edge[]
     ) => void | Promise<void>
   ) => void;
+  setOnChanges: (
+    callback?: (changes: GraphChange[]) => void | Promise<void>
+  ) => void;
+  setControlled: (controlled: boolean) => void;
+  setReadOnly: (readOnly: boolean) => void;
+  setSnapOptions: (options: SnapOptions) => void;
 }
 
-type GraphStore = GraphState &
+export type GraphStore = GraphState &
+  HistoryState &
   UIState &
+  ExecutionState &
   CallbackState &
   GraphActions &
+  HistoryActions &
   UIActions &
+  ExecutionActions &
   CallbackActions;
 
+const DEFAULT_HISTORY_LIMIT = 100;
+
+const isSameRunState = (a: NodeRunState, b: NodeRunState) =>
+  a.status === b.status && a.progress === b.progress && a.message === b.message;
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+// Statuses of runs started by startExecution, null for cancelled nodes
+const toRunState = (
+  status: NodeExecutionStatus,
+  error?: unknown
+): NodeRunState | null => {
+  switch (status) {
+    case "queued":
+    case "running":
+    case "skipped":
+      return { status };
+    case "completed":
+      return { status: "success" };
+    case "cached":
+      return { status: "success", message: "Cached" };
+    case "failed":
+      return { status: "error", message: getErrorMessage(error) };
+    case "cancelled":
+      return null;
+  }
+};
+
 const defaultInitialGraph: Graph = {
   nodes: [],
   edges: [],
@@ -111,322 +336,1356 @@ const defaultInitialGraph: Graph = {
   },
 };
 
-export const useGraphStore = create<GraphStore>()(
-  subscribeWithSelector((set, get) => {
-
-    // Helper function to call onGraphChange callback
-    const callGraphChangeCallback = (
-      newGraph: Graph,
-      node?: Node,
-      edges?: Edge[]
-    ) => {
-      const state = get();
-      if (state.onGraphChange) {
-        const result = state.onGraphChange(newGraph, node, edges);
-        if (result instanceof Promise) {
-          result.catch((error) => {
-            console.error("Graph change callback error:", error);
-          });
+// Every editor gets its own store so several can live on one page
+export const createGraphStore = () =>
+  createStore<GraphStore>()(
+    subscribeWithSelector((set, get, api) => {
+      // Snapshot taken when a batch starts (e.g. node drag), committed on end
+      let batchSnapshot: GraphSnapshot | null = null;
+      const executionCache = createExecutionCache();
+      let executionController: AbortController | null = null;
+      // Statuses of the current run, applied together once per tick
+      let pendingRunStates: Record<string, NodeRunState | null> | null = null;
+
+      const flushRunStates = () => {
+        if (!pendingRunStates) return;
+        const updates = pendingRunStates;
+        pendingRunStates = null;
+        get().setNodeRunStates(updates);
+      };
+
+      const queueRunState = (nodeId: string, runState: NodeRunState | null) => {
+        if (!pendingRunStates) {
+          pendingRunStates = {};
+          queueMicrotask(flushRunStates);
         }
-      }
-    };
-
-    return {
-      // Initial state
-      graph: defaultInitialGraph,
-      selectedNodeId: null,
-      connectionState: {
-        isConnecting: false,
-      },
-      contextMenuState: {
-        isVisible: false,
-        position: { x: 0, y: 0 },
-        type: "canvas",
-      },
-      nodeTypeConfigMap: undefined,
-
-      // Graph Actions
-      setInitialGraph: (graph) => {
-        const currentState = get();
-        set({
-          graph: {
-            ...graph,
-            viewState: currentState.graph?.viewState ?? graph.viewState,
-          },
-          selectedNodeId: null,
-          connectionState: { isConnecting: false },
-          contextMenuState: {
-            isVisible: false,
-            position: { x: 0, y: 0 },
-            type: "canvas",
-          },
+        pendingRunStates[nodeId] = runState;
+      };
+
+      // Nodes left queued or running by a cancelled run go back to idle
+      const resetActiveRunStates = () => {
+        flushRunStates();
+        const updates: Record<string, null> = {};
+        get().nodeRunStates.forEach((runState, nodeId) => {
+          if (runState.status === "queued" || runState.status === "running") {
+            updates[nodeId] = null;
+          }
         });
-      },
+        get().setNodeRunStates(updates);
+      };
+
+      const takeSnapshot = (graph: Graph): GraphSnapshot => ({
+        nodes: graph.nodes,
+        edges: graph.edges,
+        groups: graph.groups,
+        notes: graph.notes,
+      });
+
+      const isSameSnapshot = (a: GraphSnapshot, b: GraphSnapshot) =>
+        a.nodes === b.nodes &&
+        a.edges === b.edges &&
+        a.groups === b.groups &&
+        a.notes === b.notes;
+
+      const limitPast = (past: GraphSnapshot[]) => {
+        const { historyLimit } = get();
+        if (historyLimit <= 0) return [];
+        return past.length > historyLimit ? past.slice(-historyLimit) : past;
+      };
+
+      // Helper function to push the current graph onto the undo stack.
+      // Controlled edits are only proposals, syncGraph records the commits
+      const recordHistory = () => {
+        if (batchSnapshot) return;
 
-      addNode: (type, position, options) => {
         const state = get();
+        if (state.controlled) return;
+        set({
+          history: {
+            past: limitPast([...state.history.past, takeSnapshot(state.graph)]),
+            future: [],
+          },
+        });
+      };
 
-        // Determine allowMultipleInputs: options → node type config → default false
-        let allowMultipleInputs = false;
-        if (state.nodeTypeConfigMap) {
-          const nodeTypeConfig = state.nodeTypeConfigMap.get(type);
-          allowMultipleInputs = nodeTypeConfig?.allowMultipleInputs ?? false;
-        }
-
-        const newNode = createNode(type, position, allowMultipleInputs);
-
-        if (options?.title) {
-          newNode.title = options.title;
-        }
+      // Clears the edge selection once the selected edge is gone from the graph
+      const getRemainingSelectedEdgeId = (graph: Graph) => {
+        const { selectedEdgeId } = get();
+        return graph.edges.some((edge) => edge.id === selectedEdgeId)
+          ? selectedEdgeId
+          : null;
+      };
 
+      const restoreSnapshot = (snapshot: GraphSnapshot) => {
+        const state = get();
         const newGraph = {
           ...state.graph,
-          nodes: [...state.graph.nodes, newNode],
+          ...snapshot,
         };
-
-        set({ graph: newGraph });
-        callGraphChangeCallback(newGraph, newNode);
-      },
-
-      removeNodeById: (nodeId) => {
-        const currentState = get();
-        const removedNode = currentState.graph.nodes.find(
-          (node) => node.id === nodeId
-        );
-        const newGraph = removeNode(nodeId, currentState.graph);
+        const nodeIds = new Set(newGraph.nodes.map((node) => node.id));
 
         set({
           graph: newGraph,
-          selectedNodeId:
-            currentState.selectedNodeId === nodeId
-              ? null
-              : currentState.selectedNodeId,
+          selectedNodeIds: new Set(
+            [...state.selectedNodeIds].filter((id) => nodeIds.has(id))
+          ),
+          selectedEdgeId: getRemainingSelectedEdgeId(newGraph),
+          connectionState: { isConnecting: false },
         });
 
-        callGraphChangeCallback(newGraph, removedNode);
-      },
+        return newGraph;
+      };
 
-      updateNode: (nodeId, updates) => {
-        const currentState = get();
-        const newGraph = {
-          ...currentState.graph,
-          nodes: currentState.graph.nodes.map((node) =>
-            node.id === nodeId ? { ...node, ...updates } : node
-          ),
-        };
+      // Frame of the running viewport transition, any other view change stops it
+      let viewportAnimationFrame: number | null = null;
 
-        set({ graph: newGraph });
+      const cancelViewportAnimation = () => {
+        if (viewportAnimationFrame !== null) {
+          cancelAnimationFrame(viewportAnimationFrame);
+          viewportAnimationFrame = null;
+        }
+      };
 
-        const state = get();
-        const updatedNode = newGraph.nodes.find((node) => node.id === nodeId);
+      const setViewState = (viewState: ViewState) =>
+        set((state) => ({ graph: { ...state.graph, viewState } }));
 
-        if (state.onNodeChange) {
-          if (updates.title !== undefined) {
-            state.onNodeChange(nodeId, "title", updates.title);
-          } else if (updates.payload !== undefined) {
-            state.onNodeChange(nodeId, "payload", updates.payload);
-          }
+      // Interpolates the zoom and the world point at the center of the viewport
+      const animateViewState = (target: ViewState, duration: number) => {
+        cancelViewportAnimation();
+        if (duration <= 0 || typeof requestAnimationFrame === "undefined") {
+          setViewState(target);
+          return;
         }
 
-        callGraphChangeCallback(newGraph, updatedNode);
-      },
+        const { graph, viewportSize } = get();
+        const startZoom = graph.viewState.zoom;
+        const startCenter = getViewportCenter(graph.viewState, viewportSize);
+        const targetCenter = getViewportCenter(target, viewportSize);
+        const startTime = performance.now();
+
+        const step = (time: number) => {
+          const progress = Math.min(1, (time - startTime) / duration);
+          const eased = easeInOutCubic(progress);
+          setViewState(
+            getViewStateForCenter(
+              {
+                x: startCenter.x + (targetCenter.x - startCenter.x) * eased,
+                y: startCenter.y + (targetCenter.y - startCenter.y) * eased,
+              },
+              startZoom + (target.zoom - startZoom) * eased,
+              viewportSize
+            )
+          );
+          viewportAnimationFrame =
+            progress < 1 ? requestAnimationFrame(step) : null;
+        };
+        viewportAnimationFrame = requestAnimationFrame(step);
+      };
+
+      // Measured size of each node, falling back to its configured size
+      const getNodeSize = () => {
+        const { nodeSizes, nodeTypeConfigMap } = get();
+        return createNodeSizeGetter(nodeSizes, nodeTypeConfigMap);
+      };
+
+      const fitNodes = (nodes: Node[], options: ViewportOptions) => {
+        const bounds = getNodesBounds(nodes, getNodeSize());
+        if (!bounds) return;
+
+        animateViewState(
+          getViewStateForBounds(bounds, get().viewportSize, options.padding),
+          options.duration ?? DEFAULT_VIEWPORT_DURATION
+        );
+      };
+
+      // Set while the graph is updated from outside, so it isn't reported back
+      let silentGraphUpdate = false;
+      // Undo or redo proposed in controlled mode, applied to the history
+      // stacks once the host commits it through syncGraph
+      let pendingHistoryStep: "undo" | "redo" | null = null;
+
+      const withoutChanges = (update: () => void) => {
+        silentGraphUpdate = true;
+        try {
+          update();
+        } finally {
+          silentGraphUpdate = false;
+        }
+      };
 
-      moveNode: (nodeId, position) => {
-        set((state) => ({
-          graph: updateNodePosition(nodeId, position, state.graph),
-        }));
+      const emitChanges = (changes: GraphChange[]) => {
+        const { onChanges } = get();
+        if (!onChanges || changes.length === 0) return;
 
-        const state = get();
-        if (state.onNodeChange) {
-          state.onNodeChange(nodeId, "position", position);
+        const result = onChanges(changes);
+        if (result instanceof Promise) {
+          result.catch((error) => {
+            console.error("Graph changes callback error:", error);
+          });
+        }
+      };
+
+      // Reports every graph update as typed changes. Node and edge updates
+      // during a history batch (e.g. a drag) are reported when it ends
+      api.subscribe((state, previousState) => {
+        const { graph } = state;
+        const previousGraph = previousState.graph;
+        if (silentGraphUpdate || graph === previousGraph) return;
+
+        // In controlled mode node and edge edits are reverted right away, along
+        // with the selection of e.g. pasted nodes, and only applied once the
+        // host passes them back in through syncGraph. A batch shows its edits
+        // until it ends and proposes them together
+        if (state.controlled && !batchSnapshot) {
+          if (!isSameSnapshot(graph, previousGraph)) {
+            pendingHistoryStep = null;
+            withoutChanges(() =>
+              set({
+                graph: { ...graph, ...takeSnapshot(previousGraph) },
+                selectedNodeIds: previousState.selectedNodeIds,
+                selectedEdgeId: previousState.selectedEdgeId,
+              })
+            );
+          }
+          emitChanges(getGraphChanges(previousGraph, graph));
+          return;
         }
-      },
 
-      duplicateNode: (nodeId) => {
-        const state = get();
-        const originalNode = state.graph.nodes.find(
-          (node) => node.id === nodeId
+        emitChanges(
+          getGraphChanges(
+            batchSnapshot
+              ? { ...previousGraph, ...takeSnapshot(graph) }
+              : previousGraph,
+            graph
+          )
         );
-        if (!originalNode) return;
+      });
+
+      // Moves the history stacks when the host commits a controlled graph: a
+      // proposed undo or redo steps through them, any other commit is new
+      const commitControlledHistory = (
+        current: GraphSnapshot,
+        committed: Graph
+      ) => {
+        if (isSameSnapshot(current, takeSnapshot(committed))) return;
+
+        const step = pendingHistoryStep;
+        pendingHistoryStep = null;
+        const { history } = get();
+        if (step === "undo" && history.past.length > 0) {
+          set({
+            history: {
+              past: history.past.slice(0, -1),
+              future: [current, ...history.future],
+            },
+          });
+        } else if (step === "redo" && history.future.length > 0) {
+          set({
+            history: {
+              past: limitPast([...history.past, current]),
+              future: history.future.slice(1),
+            },
+          });
+        } else {
+          set({
+            history: {
+              past: limitPast([...history.past, current]),
+              future: [],
+            },
+          });
+        }
+      };
+
+      const proposeHistoryStep = (
+        step: "undo" | "redo",
+        snapshot: GraphSnapshot
+      ) => {
+        const { graph } = get();
+        pendingHistoryStep = step;
+        emitChanges(getGraphChanges(graph, { ...graph, ...snapshot }));
+      };
+
+      // Helper function to call onGraphChange callback. Controlled edits are
+      // only proposals, onChanges reports them instead
+      const callGraphChangeCallback = (
+        newGraph: Graph,
+        node?: Node,
+        edges?: Edge[]
+      ) => {
+        const state = get();
+        if (state.onGraphChange && !state.controlled) {
+          const result = state.onGraphChange(newGraph, node, edges);
+          if (result instanceof Promise) {
+            result.catch((error) => {
+              console.error("Graph change callback error:", error);
+            });
+          }
+        }
+      };
+
+      return {
+        // Initial state
+        graph: defaultInitialGraph,
+        history: { past: [], future: [] },
+        historyLimit: DEFAULT_HISTORY_LIMIT,
+        selectedNodeIds: new Set(),
+        selectedEdgeId: null,
+        connectionState: {
+          isConnecting: false,
+        },
+        contextMenuState: {
+          isVisible: false,
+          position: { x: 0, y: 0 },
+          type: "canvas",
+        },
+        viewportSize: { width: 800, height: 600 },
+        nodeSizes: new Map(),
+        activeGuides: [],
+        diagnostics: [],
+        nodeDiagnostics: new Map(),
+        edgeDiagnostics: new Map(),
+        isExecuting: false,
+        nodeRunStates: new Map(),
+        runningNodeIds: new Set(),
+        nodeTypeConfigMap: undefined,
+        controlled: false,
+        readOnly: false,
+        snapOptions: DEFAULT_SNAP_OPTIONS,
+
+        // Graph Actions
+        setInitialGraph: (graph) => {
+          const currentState = get();
+          batchSnapshot = null;
+          pendingHistoryStep = null;
+          withoutChanges(() =>
+            set({
+              graph: {
+                ...graph,
+                viewState: currentState.graph?.viewState ?? graph.viewState,
+              },
+              history: { past: [], future: [] },
+              selectedNodeIds: new Set(),
+              selectedEdgeId: null,
+              connectionState: { isConnecting: false },
+              contextMenuState: {
+                isVisible: false,
+                position: { x: 0, y: 0 },
+                type: "canvas",
+              },
+            })
+          );
+        },
+
+        syncGraph: (graph) => {
+          const currentState = get();
+          if (currentState.controlled) {
+            commitControlledHistory(takeSnapshot(currentState.graph), graph);
+          }
+          withoutChanges(() =>
+            set({
+              graph: { ...graph, viewState: currentState.graph.viewState },
+            })
+          );
+        },
+
+        applyChanges: (changes) => {
+          const state = get();
+          const newGraph = applyChanges(state.graph, changes);
+          // Applied changes are one undo step like a local edit, viewport
+          // changes aren't part of the history
+          if (!isSameSnapshot(newGraph, state.graph)) {
+            recordHistory();
+          }
 
-        const newNode = createNode(
-          originalNode.type,
-          {
-            x: originalNode.position.x + 50,
-            y: originalNode.position.y + 50,
-          },
-          originalNode.allowMultipleInputs
-        );
+          const nodeIds = new Set(newGraph.nodes.map((node) => node.id));
+          withoutChanges(() =>
+            set({
+              graph: newGraph,
+              selectedNodeIds: new Set(
+                [...state.selectedNodeIds].filter((id) => nodeIds.has(id))
+              ),
+              selectedEdgeId: getRemainingSelectedEdgeId(newGraph),
+            })
+          );
+        },
+
+        addNode: (type, position, options) => {
+          const state = get();
+
+          // allowMultipleInputs comes from the node type config, default false
+          const nodeTypeConfig = state.nodeTypeConfigMap?.get(type);
+          const allowMultipleInputs =
+            nodeTypeConfig?.allowMultipleInputs ?? false;
+
+          const newNode = createNode(
+            type,
+            position,
+            allowMultipleInputs,
+            getDefaultPayload(nodeTypeConfig?.payloadSchema)
+          );
 
-        newNode.payload = { ...originalNode.payload };
-        newNode.title = originalNode.title + " (copy)";
+          if (options?.title) {
+            newNode.title = options.title;
+          }
+          if (options?.payload) {
+            newNode.payload = options.payload;
+          }
 
-        const newGraph = {
-          ...state.graph,
-          nodes: [...state.graph.nodes, newNode],
-        };
+          const newGraph = {
+            ...state.graph,
+            nodes: [...state.graph.nodes, newNode],
+          };
+
+          recordHistory();
+          set({ graph: newGraph });
+          callGraphChangeCallback(newGraph, newNode);
+          return newNode;
+        },
+
+        removeNodeById: (nodeId) => get().removeNodes([nodeId]),
+
+        removeNodes: (nodeIds) => {
+          const currentState = get();
+          const nodeIdSet = new Set(nodeIds);
+          const removedNodes = currentState.graph.nodes.filter((node) =>
+            nodeIdSet.has(node.id)
+          );
+          if (removedNodes.length === 0) return;
+
+          const graphWithoutNodes = removeNodes(nodeIds, currentState.graph);
+          const newGraph = {
+            ...graphWithoutNodes,
+            groups:
+              graphWithoutNodes.groups &&
+              removeGroupMembers(graphWithoutNodes.groups, (id) =>
+                nodeIdSet.has(id)
+              ),
+          };
+
+          recordHistory();
+          set({
+            graph: newGraph,
+            selectedNodeIds: new Set(
+              [...currentState.selectedNodeIds].filter(
+                (id) => !nodeIdSet.has(id)
+              )
+            ),
+            selectedEdgeId: getRemainingSelectedEdgeId(newGraph),
+          });
 
-        set({ graph: newGraph });
-        callGraphChangeCallback(newGraph, newNode);
-      },
+          callGraphChangeCallback(
+            newGraph,
+            removedNodes.length === 1 ? removedNodes[0] : undefined
+          );
+        },
 
-      disconnectAllFromNode: (nodeId) => {
-        const currentState = get();
-        const disconnectedNode = currentState.graph.nodes.find(
-          (node) => node.id === nodeId
-        );
-        const removedEdges = currentState.graph.edges.filter(
-          (edge) => edge.sourceNodeId === nodeId || edge.targetNodeId === nodeId
-        );
+        updateNode: (nodeId, updates) => {
+          const currentState = get();
+          if (!currentState.graph.nodes.some((node) => node.id === nodeId)) {
+            return;
+          }
 
-        const newGraph = {
-          ...currentState.graph,
-          edges: currentState.graph.edges.filter(
-            (edge) =>
-              edge.sourceNodeId !== nodeId && edge.targetNodeId !== nodeId
-          ),
-        };
+          const newGraph = {
+            ...currentState.graph,
+            nodes: currentState.graph.nodes.map((node) =>
+              node.id === nodeId ? { ...node, ...updates } : node
+            ),
+          };
+
+          recordHistory();
+          set({ graph: newGraph });
+
+          const state = get();
+          const updatedNode = newGraph.nodes.find((node) => node.id === nodeId);
+
+          if (state.onNodeChange && !state.controlled) {
+            if (updates.title !== undefined) {
+              state.onNodeChange(nodeId, "title", updates.title);
+            } else if (updates.payload !== undefined) {
+              state.onNodeChange(nodeId, "payload", updates.payload);
+            }
+          }
 
-        set({ graph: newGraph });
-        callGraphChangeCallback(newGraph, disconnectedNode, removedEdges);
-      },
+          callGraphChangeCallback(newGraph, updatedNode);
+        },
 
-      addEdge: (sourceNodeId, targetNodeId) => {
-        const state = get();
-        const validation = validateConnection(
-          sourceNodeId,
-          targetNodeId,
-          state.graph
-        );
+        moveNode: (nodeId, position) => {
+          if (!get().graph.nodes.some((node) => node.id === nodeId)) return;
 
-        if (!validation.valid) {
-          console.warn("Connection failed:", validation.reason);
-          return false;
-        }
+          recordHistory();
+          set((state) => ({
+            graph: updateNodePosition(nodeId, position, state.graph),
+          }));
 
-        const newEdge = createEdge(sourceNodeId, targetNodeId);
-        const newGraph = {
-          ...state.graph,
-          edges: [...state.graph.edges, newEdge],
-        };
+          const state = get();
+          if (state.onNodeChange && !state.controlled) {
+            state.onNodeChange(nodeId, "position", position);
+          }
+        },
+
+        moveNodes: (positions) => {
+          recordHistory();
+          set((state) => ({
+            graph: {
+              ...state.graph,
+              nodes: state.graph.nodes.map((node) =>
+                positions[node.id]
+                  ? { ...node, position: positions[node.id] }
+                  : node
+              ),
+            },
+          }));
+
+          const state = get();
+          if (state.onNodeChange && !state.controlled) {
+            Object.entries(positions).forEach(([nodeId, position]) => {
+              state.onNodeChange?.(nodeId, "position", position);
+            });
+          }
+        },
 
-        set({ graph: newGraph });
-        callGraphChangeCallback(newGraph, undefined, [newEdge]);
-        return true;
-      },
+        resizeNode: (nodeId, size) => {
+          const state = get();
+          const node = state.graph.nodes.find((n) => n.id === nodeId);
+          if (!node) return;
 
-      removeEdgeById: (edgeId) => {
-        const state = get();
-        const removedEdge = state.graph.edges.find(
-          (edge) => edge.id === edgeId
-        );
-        const newGraph = removeEdge(edgeId, state.graph);
+          recordHistory();
+          const newGraph = {
+            ...state.graph,
+            nodes: state.graph.nodes.map((n) =>
+              n.id === nodeId
+                ? {
+                    ...n,
+                    size: clampNodeSize(
+                      size,
+                      state.nodeTypeConfigMap?.get(n.type)
+                    ),
+                  }
+                : n
+            ),
+          };
+          set({ graph: newGraph });
+          callGraphChangeCallback(newGraph);
+        },
+
+        duplicateNode: (nodeId) => get().duplicateNodes([nodeId]),
+
+        duplicateNodes: (nodeIds) => {
+          const state = get();
+          const nodeIdSet = new Set(nodeIds);
+          const originalNodes = state.graph.nodes.filter((node) =>
+            nodeIdSet.has(node.id)
+          );
+          if (originalNodes.length === 0) return;
+
+          // Edges between duplicated nodes are duplicated along with them
+          const { nodes: newNodes, edges: newEdges } = cloneSubgraph(
+            originalNodes,
+            state.graph.edges,
+            { x: 50, y: 50 }
+          );
+          newNodes.forEach((node) => {
+            node.title = node.title + " (copy)";
+          });
 
-        set({ graph: newGraph });
-        callGraphChangeCallback(
-          newGraph,
-          undefined,
-          removedEdge ? [removedEdge] : undefined
-        );
-      },
+          const newGraph = {
+            ...state.graph,
+            nodes: [...state.graph.nodes, ...newNodes],
+            edges: [...state.graph.edges, ...newEdges],
+          };
+
+          recordHistory();
+          set({
+            graph: newGraph,
+            selectedNodeIds:
+              newNodes.length > 1
+                ? new Set(newNodes.map((node) => node.id))
+                : state.selectedNodeIds,
+          });
+          callGraphChangeCallback(
+            newGraph,
+            newNodes.length === 1 ? newNodes[0] : undefined,
+            newEdges.length > 0 ? newEdges : undefined
+          );
+        },
+
+        disconnectAllFromNode: (nodeId) =>
+          get().disconnectAllFromNodes([nodeId]),
+
+        disconnectAllFromNodes: (nodeIds) => {
+          const currentState = get();
+          const nodeIdSet = new Set(nodeIds);
+          const disconnectedNodes = currentState.graph.nodes.filter((node) =>
+            nodeIdSet.has(node.id)
+          );
+          const isConnected = (edge: Edge) =>
+            nodeIdSet.has(edge.sourceNodeId) ||
+            nodeIdSet.has(edge.targetNodeId);
+          const removedEdges = currentState.graph.edges.filter(isConnected);
+
+          const newGraph = {
+            ...currentState.graph,
+            edges: currentState.graph.edges.filter(
+              (edge) => !isConnected(edge)
+            ),
+          };
+
+          recordHistory();
+          set({
+            graph: newGraph,
+            selectedEdgeId: getRemainingSelectedEdgeId(newGraph),
+          });
+          callGraphChangeCallback(
+            newGraph,
+            disconnectedNodes.length === 1 ? disconnectedNodes[0] : undefined,
+            removedEdges
+          );
+        },
+
+        pasteSubgraph: (data, position) => {
+          const state = get();
+          const { nodeTypeConfigMap } = state;
+
+          // Skip nodes whose type this editor does not know
+          const nodes = data.nodes.filter(
+            (node) => !nodeTypeConfigMap || nodeTypeConfigMap.has(node.type)
+          );
+          if (nodes.length === 0) return;
+
+          // Place the top-left corner of the pasted nodes at the given position
+          const minX = Math.min(...nodes.map((node) => node.position.x));
+          const minY = Math.min(...nodes.map((node) => node.position.y));
+          const { nodes: newNodes, edges: clonedEdges } = cloneSubgraph(
+            nodes,
+            data.edges,
+            { x: position.x - minX, y: position.y - minY }
+          );
+          newNodes.forEach((node) => {
+            const nodeTypeConfig = nodeTypeConfigMap?.get(node.type);
+            if (nodeTypeConfig) {
+              node.allowMultipleInputs =
+                nodeTypeConfig.allowMultipleInputs ?? false;
+            }
+          });
 
-      setZoom: (zoom) =>
-        set((state) => ({
-          graph: {
+          let newGraph = {
             ...state.graph,
-            viewState: { ...state.graph.viewState, zoom },
-          },
-        })),
+            nodes: [...state.graph.nodes, ...newNodes],
+          };
+
+          const newEdges: Edge[] = [];
+          clonedEdges.forEach((edge) => {
+            const validation = validateConnection(
+              edge.sourceNodeId,
+              edge.targetNodeId,
+              newGraph,
+              {
+                sourcePortId: edge.sourcePortId,
+                targetPortId: edge.targetPortId,
+                nodeTypeConfigMap,
+                portCompatibility: state.portCompatibility,
+              }
+            );
+            if (!validation.valid) {
+              console.warn("Pasted connection skipped:", validation.reason);
+              return;
+            }
+
+            newEdges.push(edge);
+            newGraph = { ...newGraph, edges: [...newGraph.edges, edge] };
+          });
 
-      setOffset: (offset) =>
-        set((state) => ({
-          graph: {
+          recordHistory();
+          set({
+            graph: newGraph,
+            selectedNodeIds: new Set(newNodes.map((node) => node.id)),
+            selectedEdgeId: null,
+          });
+          callGraphChangeCallback(
+            newGraph,
+            newNodes.length === 1 ? newNodes[0] : undefined,
+            newEdges.length > 0 ? newEdges : undefined
+          );
+        },
+
+        autoLayout: (options, nodeIds) => {
+          const { graph } = get();
+          const nodeIdSet = nodeIds ? new Set(nodeIds) : null;
+          const positions = computeLayout(
+            nodeIdSet
+              ? graph.nodes.filter((node) => nodeIdSet.has(node.id))
+              : graph.nodes,
+            graph.edges,
+            { getNodeSize: getNodeSize(), ...options }
+          );
+          if (Object.keys(positions).length === 0) return;
+
+          get().moveNodes(positions);
+          callGraphChangeCallback(get().graph);
+        },
+
+        groupNodes: (nodeIds, options) => {
+          const state = get();
+          const existingIds = new Set(state.graph.nodes.map((node) => node.id));
+          const memberIds = nodeIds.filter((id) => existingIds.has(id));
+          if (memberIds.length === 0) return null;
+
+          const group = createGroup(memberIds, options);
+          const newGraph = {
             ...state.graph,
-            viewState: { ...state.graph.viewState, offset },
-          },
-        })),
+            groups: addGroup(state.graph.groups, group),
+          };
+
+          recordHistory();
+          set({ graph: newGraph });
+          callGraphChangeCallback(newGraph);
+          return group;
+        },
+
+        ungroup: (groupId) => {
+          const state = get();
+          if (!state.graph.groups?.some((group) => group.id === groupId)) {
+            return;
+          }
 
-      updateViewState: (updates) =>
-        set((state) => ({
-          graph: {
+          const newGraph = {
             ...state.graph,
-            viewState: { ...state.graph.viewState, ...updates },
-          },
-        })),
+            groups: state.graph.groups.filter((group) => group.id !== groupId),
+          };
+
+          recordHistory();
+          set({ graph: newGraph });
+          callGraphChangeCallback(newGraph);
+        },
+
+        updateGroup: (groupId, updates) => {
+          const state = get();
+          if (!state.graph.groups?.some((group) => group.id === groupId)) {
+            return;
+          }
 
-      // UI Actions
-      setSelectedNode: (nodeId) => set({ selectedNodeId: nodeId }),
+          const newGraph = {
+            ...state.graph,
+            groups: state.graph.groups?.map((group) =>
+              group.id === groupId ? { ...group, ...updates } : group
+            ),
+          };
+
+          recordHistory();
+          set({ graph: newGraph });
+          callGraphChangeCallback(newGraph);
+        },
+
+        setGroupCollapsed: (groupId, collapsed) => {
+          const state = get();
+          const group = state.graph.groups?.find((g) => g.id === groupId);
+          if (!group || Boolean(group.collapsed) === collapsed) return;
+
+          const newGraph = {
+            ...state.graph,
+            groups: state.graph.groups?.map((g) =>
+              g.id === groupId ? { ...g, collapsed } : g
+            ),
+          };
+          // Hidden nodes can't stay selected
+          const hiddenIds = new Set(collapsed ? group.nodeIds : []);
+
+          recordHistory();
+          set({
+            graph: newGraph,
+            selectedNodeIds: new Set(
+              [...state.selectedNodeIds].filter((id) => !hiddenIds.has(id))
+            ),
+          });
+          callGraphChangeCallback(newGraph);
+        },
 
-      startConnection: (sourceNodeId, position) =>
-        set({
-          connectionState: {
-            isConnecting: true,
-            sourcePort: { nodeId: sourceNodeId, type: "output" },
-            currentPosition: position,
-          },
-        }),
+        addNote: (position, options) => {
+          const state = get();
+          const note = createNote(position, options);
+          const newGraph = {
+            ...state.graph,
+            notes: [...(state.graph.notes ?? []), note],
+          };
 
-      updateConnectionPosition: (position) =>
-        set((state) => ({
-          connectionState: {
-            ...state.connectionState,
-            currentPosition: position,
-          },
-        })),
+          recordHistory();
+          set({ graph: newGraph });
+          callGraphChangeCallback(newGraph);
+          return note;
+        },
 
-      completeConnection: (targetNodeId) => {
-        const state = get();
-        const sourceNodeId = state.connectionState.sourcePort?.nodeId;
+        updateNote: (noteId, updates) => {
+          const state = get();
+          if (!state.graph.notes?.some((note) => note.id === noteId)) return;
 
-        if (!sourceNodeId) return false;
+          const newGraph = {
+            ...state.graph,
+            notes: state.graph.notes?.map((note) =>
+              note.id === noteId
+                ? {
+                    ...note,
+                    ...updates,
+                    size: updates.size
+                      ? clampNoteSize(updates.size)
+                      : note.size,
+                  }
+                : note
+            ),
+          };
+
+          recordHistory();
+          set({ graph: newGraph });
+          callGraphChangeCallback(newGraph);
+        },
+
+        removeNote: (noteId) => {
+          const state = get();
+          if (!state.graph.notes?.some((note) => note.id === noteId)) return;
+
+          const newGraph = {
+            ...state.graph,
+            notes: state.graph.notes.filter((note) => note.id !== noteId),
+          };
+
+          recordHistory();
+          set({ graph: newGraph });
+          callGraphChangeCallback(newGraph);
+        },
+
+        addEdge: (sourceNodeId, targetNodeId, sourcePortId, targetPortId) => {
+          const state = get();
+          const validation = validateConnection(
+            sourceNodeId,
+            targetNodeId,
+            state.graph,
+            {
+              sourcePortId,
+              targetPortId,
+              nodeTypeConfigMap: state.nodeTypeConfigMap,
+              portCompatibility: state.portCompatibility,
+            }
+          );
+
+          if (!validation.valid) {
+            console.warn("Connection failed:", validation.reason);
+            return null;
+          }
 
-        const success = state.addEdge(sourceNodeId, targetNodeId);
+          const newEdge = createEdge(
+            sourceNodeId,
+            targetNodeId,
+            sourcePortId,
+            targetPortId
+          );
+          const newGraph = {
+            ...state.graph,
+            edges: [...state.graph.edges, newEdge],
+          };
+
+          recordHistory();
+          set({ graph: newGraph });
+          callGraphChangeCallback(newGraph, undefined, [newEdge]);
+          return newEdge;
+        },
+
+        removeEdgeById: (edgeId) => {
+          const state = get();
+          const removedEdge = state.graph.edges.find(
+            (edge) => edge.id === edgeId
+          );
+          if (!removedEdge) return;
+
+          const newGraph = removeEdge(edgeId, state.graph);
+
+          recordHistory();
+          set({
+            graph: newGraph,
+            selectedEdgeId: getRemainingSelectedEdgeId(newGraph),
+          });
+          callGraphChangeCallback(newGraph, undefined, [removedEdge]);
+        },
 
-        set({
-          connectionState: { isConnecting: false },
-        });
+        updateEdge: (edgeId, updates) => {
+          const currentState = get();
+          if (!currentState.graph.edges.some((edge) => edge.id === edgeId)) {
+            return;
+          }
 
-        return success;
-      },
+          const newGraph = {
+            ...currentState.graph,
+            edges: currentState.graph.edges.map((edge) =>
+              edge.id === edgeId ? { ...edge, ...updates } : edge
+            ),
+          };
+
+          recordHistory();
+          set({ graph: newGraph });
+
+          const state = get();
+          const updatedEdge = newGraph.edges.find((edge) => edge.id === edgeId);
+
+          if (state.onEdgeChange && !state.controlled) {
+            if (updates.label !== undefined) {
+              state.onEdgeChange(edgeId, "label", updates.label);
+            } else if (updates.payload !== undefined) {
+              state.onEdgeChange(edgeId, "payload", updates.payload);
+            }
+          }
 
-      cancelConnection: () =>
-        set({
-          connectionState: { isConnecting: false },
-        }),
+          callGraphChangeCallback(
+            newGraph,
+            undefined,
+            updatedEdge ? [updatedEdge] : undefined
+          );
+        },
+
+        setZoom: (zoom) => {
+          cancelViewportAnimation();
+          set((state) => ({
+            graph: {
+              ...state.graph,
+              viewState: { ...state.graph.viewState, zoom },
+            },
+          }));
+        },
+
+        setOffset: (offset) => {
+          cancelViewportAnimation();
+          set((state) => ({
+            graph: {
+              ...state.graph,
+              viewState: { ...state.graph.viewState, offset },
+            },
+          }));
+        },
+
+        updateViewState: (updates) => {
+          cancelViewportAnimation();
+          set((state) => ({
+            graph: {
+              ...state.graph,
+              viewState: { ...state.graph.viewState, ...updates },
+            },
+          }));
+        },
+
+        fitView: (options = {}) => fitNodes(get().graph.nodes, options),
+
+        fitSelection: (options = {}) => {
+          const { graph, selectedNodeIds } = get();
+          fitNodes(
+            graph.nodes.filter((node) => selectedNodeIds.has(node.id)),
+            options
+          );
+        },
+
+        focusNode: (nodeId, options = {}) => {
+          const { graph, viewportSize } = get();
+          const node = graph.nodes.find((n) => n.id === nodeId);
+          if (!node) return;
+
+          const bounds = getNodesBounds([node], getNodeSize())!;
+          animateViewState(
+            getViewStateForCenter(
+              {
+                x: bounds.x + bounds.width / 2,
+                y: bounds.y + bounds.height / 2,
+              },
+              clampZoom(options.zoom ?? graph.viewState.zoom),
+              viewportSize
+            ),
+            options.duration ?? DEFAULT_VIEWPORT_DURATION
+          );
+        },
+
+        // History Actions
+        undo: () => {
+          const state = get();
+          const previous = state.history.past[state.history.past.length - 1];
+          if (!previous) return;
+
+          batchSnapshot = null;
+          if (state.controlled) {
+            proposeHistoryStep("undo", previous);
+            return;
+          }
+          set({
+            history: {
+              past: state.history.past.slice(0, -1),
+              future: [takeSnapshot(state.graph), ...state.history.future],
+            },
+          });
 
-      showContextMenu: (type, position, nodeId, canvasPosition) =>
-        set(() => ({
-          contextMenuState: {
-            isVisible: true,
-            position,
-            type,
-            nodeId,
-            canvasPosition,
-          },
-        })),
+          callGraphChangeCallback(restoreSnapshot(previous));
+        },
 
-      hideContextMenu: () =>
-        set({
-          contextMenuState: {
-            isVisible: false,
-            position: { x: 0, y: 0 },
-            type: "canvas",
-          },
-        }),
+        redo: () => {
+          const state = get();
+          const [next, ...future] = state.history.future;
+          if (!next) return;
 
-      // Callback setters
-      setNodeTypeConfigMap: (configMap) =>
-        set({ nodeTypeConfigMap: configMap }),
-      setOnNodeChange: (callback) => set({ onNodeChange: callback }),
-      setOnGraphChange: (callback) => set({ onGraphChange: callback }),
-    };
-  })
-);
+          batchSnapshot = null;
+          if (state.controlled) {
+            proposeHistoryStep("redo", next);
+            return;
+          }
+          set({
+            history: {
+              past: limitPast([
+                ...state.history.past,
+                takeSnapshot(state.graph),
+              ]),
+              future,
+            },
+          });
+
+          callGraphChangeCallback(restoreSnapshot(next));
+        },
+
+        beginHistoryBatch: () => {
+          if (batchSnapshot) return;
+          batchSnapshot = takeSnapshot(get().graph);
+        },
+
+        endHistoryBatch: () => {
+          const snapshot = batchSnapshot;
+          if (!snapshot) return;
+          batchSnapshot = null;
+
+          const state = get();
+          if (isSameSnapshot(snapshot, state.graph)) return;
+
+          // Controlled edits go back to the snapshot until the host commits
+          // them, the whole batch is proposed once
+          if (state.controlled) {
+            withoutChanges(() =>
+              set({ graph: { ...state.graph, ...snapshot } })
+            );
+            emitChanges(
+              getGraphChanges({ ...state.graph, ...snapshot }, state.graph)
+            );
+            return;
+          }
+
+          emitChanges(
+            getGraphChanges({ ...state.graph, ...snapshot }, state.graph)
+          );
+
+          set({
+            history: {
+              past: limitPast([...state.history.past, snapshot]),
+              future: [],
+            },
+          });
+        },
+
+        clearHistory: () => {
+          batchSnapshot = null;
+          pendingHistoryStep = null;
+          set({ history: { past: [], future: [] } });
+        },
+
+        setHistoryLimit: (limit) => {
+          set({ historyLimit: limit });
+          set((state) => ({
+            history: {
+              ...state.history,
+              past: limitPast(state.history.past),
+            },
+          }));
+        },
+
+        // UI Actions
+        // Selecting nodes clears the edge selection and vice versa
+        setSelectedNode: (nodeId) =>
+          set({
+            selectedNodeIds: new Set(nodeId ? [nodeId] : []),
+            selectedEdgeId: null,
+          }),
+
+        setSelectedNodes: (nodeIds) =>
+          set({ selectedNodeIds: new Set(nodeIds), selectedEdgeId: null }),
+
+        toggleNodeSelection: (nodeId) =>
+          set((state) => {
+            const selectedNodeIds = new Set(state.selectedNodeIds);
+            if (selectedNodeIds.has(nodeId)) {
+              selectedNodeIds.delete(nodeId);
+            } else {
+              selectedNodeIds.add(nodeId);
+            }
+            return { selectedNodeIds, selectedEdgeId: null };
+          }),
+
+        selectNodesInRect: (rect, additive = false) =>
+          set((state) => {
+            const hiddenNodes = getCollapsedGroupsByNodeId(state.graph.groups);
+            const nodeIds = getNodesInRect(
+              state.graph.nodes.filter((node) => !hiddenNodes.has(node.id)),
+              rect,
+              getNodeSize()
+            ).map((node) => node.id);
+            return {
+              selectedNodeIds: new Set(
+                additive ? [...state.selectedNodeIds, ...nodeIds] : nodeIds
+              ),
+              selectedEdgeId: null,
+            };
+          }),
+
+        setSelectedEdge: (edgeId) =>
+          set((state) => ({
+            selectedEdgeId: edgeId,
+            selectedNodeIds: edgeId ? new Set() : state.selectedNodeIds,
+          })),
+
+        startConnection: (sourceNodeId, position, portId) =>
+          set({
+            connectionState: {
+              isConnecting: true,
+              sourcePort: { nodeId: sourceNodeId, type: "output", portId },
+              currentPosition: position,
+            },
+          }),
+
+        updateConnectionPosition: (position) =>
+          set((state) => ({
+            connectionState: {
+              ...state.connectionState,
+              currentPosition: position,
+            },
+          })),
+
+        completeConnection: (targetNodeId, portId) => {
+          const state = get();
+          const sourcePort = state.connectionState.sourcePort;
+
+          if (!sourcePort) return false;
+
+          const newEdge = state.addEdge(
+            sourcePort.nodeId,
+            targetNodeId,
+            sourcePort.portId,
+            portId
+          );
+
+          set({
+            connectionState: { isConnecting: false },
+          });
+
+          return newEdge !== null;
+        },
+
+        cancelConnection: () =>
+          set({
+            connectionState: { isConnecting: false },
+          }),
+
+        showContextMenu: (type, position, nodeId, canvasPosition) =>
+          set(() => ({
+            contextMenuState: {
+              isVisible: true,
+              position,
+              type,
+              nodeId,
+              canvasPosition,
+            },
+          })),
+
+        showEdgeContextMenu: (position, edgeId) =>
+          set({
+            contextMenuState: {
+              isVisible: true,
+              position,
+              type: "edge",
+              edgeId,
+            },
+          }),
+
+        hideContextMenu: () =>
+          set({
+            contextMenuState: {
+              isVisible: false,
+              position: { x: 0, y: 0 },
+              type: "canvas",
+            },
+          }),
+
+        setViewportSize: (size) => set({ viewportSize: size }),
+        setNodeSize: (nodeId, size) => {
+          const { nodeSizes } = get();
+          const current = nodeSizes.get(nodeId);
+          const unchanged = size
+            ? current?.width === size.width && current?.height === size.height
+            : !current;
+          if (unchanged) return;
+
+          const newSizes = new Map(nodeSizes);
+          if (size) {
+            newSizes.set(nodeId, size);
+          } else {
+            newSizes.delete(nodeId);
+          }
+          set({ nodeSizes: newSizes });
+        },
+        setActiveGuides: (guides) => {
+          // Skip the update while there are no guides to keep drags cheap
+          if (guides.length === 0 && get().activeGuides.length === 0) return;
+          set({ activeGuides: guides });
+        },
+        setDiagnostics: (diagnostics) => {
+          // Moving nodes revalidates without changing the result, so only
+          // new problems re-render the affected cards and edges
+          if (isSameDiagnostics(get().diagnostics, diagnostics)) return;
+
+          const group = (key: "nodeId" | "edgeId") => {
+            const result = new Map<string, GraphDiagnostic[]>();
+            diagnostics.forEach((diagnostic) => {
+              const id = diagnostic[key];
+              if (id !== undefined) {
+                result.set(id, [...(result.get(id) ?? []), diagnostic]);
+              }
+            });
+            return result;
+          };
+          set({
+            diagnostics,
+            nodeDiagnostics: group("nodeId"),
+            edgeDiagnostics: group("edgeId"),
+          });
+        },
+
+        // Execution Actions
+        startExecution: async (options) => {
+          executionController?.abort();
+          resetActiveRunStates();
+          const controller = new AbortController();
+          executionController = controller;
+          set({ isExecuting: true });
+
+          const { graph, nodeTypeConfigMap } = get();
+          const isCurrentRun = () => executionController === controller;
+          const result = await executeGraph(
+            graph,
+            nodeTypeConfigMap ?? new Map(),
+            {
+              ...options,
+              signal: controller.signal,
+              cache: executionCache,
+              onNodeStatus: (nodeId, status, error) => {
+                if (isCurrentRun()) {
+                  queueRunState(nodeId, toRunState(status, error));
+                }
+              },
+              onNodeProgress: (nodeId, progress, message) => {
+                if (isCurrentRun()) {
+                  queueRunState(nodeId, {
+                    status: "running",
+                    progress,
+                    message,
+                  });
+                }
+              },
+            }
+          );
+
+          // A newer run owns the flag once this one was replaced
+          if (executionController === controller) {
+            executionController = null;
+            set({ isExecuting: false });
+          }
+          return result;
+        },
+        cancelExecution: () => {
+          executionController?.abort();
+          executionController = null;
+          resetActiveRunStates();
+          set({ isExecuting: false });
+        },
+        clearExecutionCache: () => executionCache.clear(),
+        setNodeRunStates: (updates) => {
+          const current = get().nodeRunStates;
+          let next: Map<string, NodeRunState> | null = null;
+
+          // Unchanged states keep their object, so only the cards whose
+          // state changed re-render
+          for (const [nodeId, runState] of Object.entries(updates)) {
+            const previous = current.get(nodeId);
+            if (!runState || runState.status === "idle") {
+              if (!previous) continue;
+              next ??= new Map(current);
+              next.delete(nodeId);
+            } else if (!previous || !isSameRunState(previous, runState)) {
+              next ??= new Map(current);
+              next.set(nodeId, runState);
+            }
+          }
+          if (!next) return;
+
+          const runningNodeIds = new Set<string>();
+          next.forEach((runState, nodeId) => {
+            if (runState.status === "running") runningNodeIds.add(nodeId);
+          });
+          const previousRunning = get().runningNodeIds;
+          const isSameRunning =
+            runningNodeIds.size === previousRunning.size &&
+            [...runningNodeIds].every((nodeId) => previousRunning.has(nodeId));
+
+          set({
+            nodeRunStates: next,
+            runningNodeIds: isSameRunning ? previousRunning : runningNodeIds,
+          });
+        },
+        clearNodeRunStates: () => {
+          pendingRunStates = null;
+          set({ nodeRunStates: new Map(), runningNodeIds: new Set() });
+        },
+
+        // Callback setters
+        setNodeTypeConfigMap: (configMap) =>
+          set({ nodeTypeConfigMap: configMap }),
+        setPortCompatibility: (compatibility) =>
+          set({ portCompatibility: compatibility }),
+        setOnNodeChange: (callback) => set({ onNodeChange: callback }),
+        setOnEdgeChange: (callback) => set({ onEdgeChange: callback }),
+        setOnGraphChange: (callback) => set({ onGraphChange: callback }),
+        setOnChanges: (callback) => set({ onChanges: callback }),
+        setControlled: (controlled) => set({ controlled }),
+        setReadOnly: (readOnly) =>
+          set({
+            readOnly,
+            connectionState: { isConnecting: false },
+            contextMenuState: { ...get().contextMenuState, isVisible: false },
+          }),
+        setSnapOptions: (options) => set({ snapOptions: options }),
+      };
+    })
+  );
+
+export type GraphStoreApi = ReturnType<typeof createGraphStore>;
+
+export const GraphStoreContext = createContext<GraphStoreApi | null>(null);
+
+// Store of the nearest GraphEditor or GraphStoreProvider, for event handlers
+export const useGraphStoreApi = () => {
+  const store = useContext(GraphStoreContext);
+  if (!store) {
+    throw new Error(
+      "Graph store hooks must be used inside a GraphEditor or GraphStoreProvider"
+    );
+  }
+  return store;
+};
+
+export const useGraphStore = <T>(selector: (state: GraphStore) => T): T =>
+  useStore(useGraphStoreApi(), selector);
 
 // State selectors - subscribe only to needed parts
 export const useGraph = () => useGraphStore((state) => state.graph);
 export const useNodes = () => useGraphStore((state) => state.graph.nodes);
 export const useEdges = () => useGraphStore((state) => state.graph.edges);
+export const useGroups = () => useGraphStore((state) => state.graph.groups);
+export const useNotes = () => useGraphStore((state) => state.graph.notes);
 export const useViewState = () =>
   useGraphStore((state) => state.graph.viewState);
 export const useZoom = () =>
@@ -434,12 +1693,65 @@ export const useZoom = () =>
 export const useOffset = () =>
   useGraphStore((state) => state.graph.viewState.offset);
 
+export const useCanUndo = () =>
+  useGraphStore((state) => state.history.past.length > 0);
+export const useCanRedo = () =>
+  useGraphStore((state) => state.history.future.length > 0);
+
+// Returns the selected node id only while exactly one node is selected
 export const useSelectedNode = () =>
-  useGraphStore((state) => state.selectedNodeId);
+  useGraphStore((state) =>
+    state.selectedNodeIds.size === 1
+      ? state.selectedNodeIds.values().next().value ?? null
+      : null
+  );
+export const useSelectedNodeIds = () =>
+  useGraphStore((state) => state.selectedNodeIds);
+export const useIsNodeSelected = (nodeId: string) =>
+  useGraphStore((state) => state.selectedNodeIds.has(nodeId));
+export const useSelectedEdge = () =>
+  useGraphStore((state) => state.selectedEdgeId);
 export const useConnectionState = () =>
   useGraphStore((state) => state.connectionState);
+export const useConnectionSourcePort = () =>
+  useGraphStore((state) => state.connectionState.sourcePort);
 export const useContextMenuState = () =>
   useGraphStore((state) => state.contextMenuState);
+export const useViewportSize = () =>
+  useGraphStore((state) => state.viewportSize);
+export const useNodeSizes = () => useGraphStore((state) => state.nodeSizes);
+export const useActiveGuides = () =>
+  useGraphStore((state) => state.activeGuides);
+export const useSnapOptions = () => useGraphStore((state) => state.snapOptions);
+export const useDiagnostics = () => useGraphStore((state) => state.diagnostics);
+export const useNodeDiagnostics = (nodeId: string) =>
+  useGraphStore((state) => state.nodeDiagnostics.get(nodeId));
+export const useEdgeDiagnostics = () =>
+  useGraphStore((state) => state.edgeDiagnostics);
+export const useIsExecuting = () => useGraphStore((state) => state.isExecuting);
+export const useNodeRunStates = () =>
+  useGraphStore((state) => state.nodeRunStates);
+export const useNodeRunState = (nodeId: string) =>
+  useGraphStore((state) => state.nodeRunStates.get(nodeId));
+export const useRunningNodeIds = () =>
+  useGraphStore((state) => state.runningNodeIds);
+
+export const useReadOnly = () => useGraphStore((state) => state.readOnly);
+
+export const useNodeTypeConfigMap = () =>
+  useGraphStore((state) => state.nodeTypeConfigMap);
+export const useNodeTypeConfig = (type: NodeType) =>
+  useGraphStore((state) => state.nodeTypeConfigMap?.get(type));
+
+// Measured size of each node, falling back to its configured size
+export const useNodeSizeGetter = () => {
+  const nodeSizes = useNodeSizes();
+  const nodeTypeConfigMap = useNodeTypeConfigMap();
+  return useMemo(
+    () => createNodeSizeGetter(nodeSizes, nodeTypeConfigMap),
+    [nodeSizes, nodeTypeConfigMap]
+  );
+};
 
 // Selector that subscribes to a specific node only
 export const useNode = (nodeId: string) =>
@@ -458,25 +1770,70 @@ export const useNodeEdges = (nodeId: string) =>
 // Use actions separately - individual selectors for stable references
 export const useSetInitialGraph = () =>
   useGraphStore((state) => state.setInitialGraph);
+export const useSyncGraph = () => useGraphStore((state) => state.syncGraph);
 export const useAddNode = () => useGraphStore((state) => state.addNode);
 export const useRemoveNodeById = () =>
   useGraphStore((state) => state.removeNodeById);
+export const useRemoveNodes = () => useGraphStore((state) => state.removeNodes);
 export const useUpdateNode = () => useGraphStore((state) => state.updateNode);
 export const useMoveNode = () => useGraphStore((state) => state.moveNode);
+export const useMoveNodes = () => useGraphStore((state) => state.moveNodes);
+export const useResizeNode = () => useGraphStore((state) => state.resizeNode);
 export const useDuplicateNode = () =>
   useGraphStore((state) => state.duplicateNode);
+export const useDuplicateNodes = () =>
+  useGraphStore((state) => state.duplicateNodes);
 export const useDisconnectAllFromNode = () =>
   useGraphStore((state) => state.disconnectAllFromNode);
+export const useDisconnectAllFromNodes = () =>
+  useGraphStore((state) => state.disconnectAllFromNodes);
+export const usePasteSubgraph = () =>
+  useGraphStore((state) => state.pasteSubgraph);
+export const useAutoLayout = () => useGraphStore((state) => state.autoLayout);
+export const useGroupNodes = () => useGraphStore((state) => state.groupNodes);
+export const useUngroup = () => useGraphStore((state) => state.ungroup);
+export const useUpdateGroup = () => useGraphStore((state) => state.updateGroup);
+export const useSetGroupCollapsed = () =>
+  useGraphStore((state) => state.setGroupCollapsed);
+export const useAddNote = () => useGraphStore((state) => state.addNote);
+export const useUpdateNote = () => useGraphStore((state) => state.updateNote);
+export const useRemoveNote = () => useGraphStore((state) => state.removeNote);
+export const useApplyChanges = () =>
+  useGraphStore((state) => state.applyChanges);
 export const useAddEdge = () => useGraphStore((state) => state.addEdge);
 export const useRemoveEdgeById = () =>
   useGraphStore((state) => state.removeEdgeById);
+export const useUpdateEdge = () => useGraphStore((state) => state.updateEdge);
 export const useSetZoom = () => useGraphStore((state) => state.setZoom);
 export const useSetOffset = () => useGraphStore((state) => state.setOffset);
 export const useUpdateViewState = () =>
   useGraphStore((state) => state.updateViewState);
+export const useFitView = () => useGraphStore((state) => state.fitView);
+export const useFitSelection = () =>
+  useGraphStore((state) => state.fitSelection);
+export const useFocusNode = () => useGraphStore((state) => state.focusNode);
+
+export const useUndo = () => useGraphStore((state) => state.undo);
+export const useRedo = () => useGraphStore((state) => state.redo);
+export const useBeginHistoryBatch = () =>
+  useGraphStore((state) => state.beginHistoryBatch);
+export const useEndHistoryBatch = () =>
+  useGraphStore((state) => state.endHistoryBatch);
+export const useClearHistory = () =>
+  useGraphStore((state) => state.clearHistory);
+export const useSetHistoryLimit = () =>
+  useGraphStore((state) => state.setHistoryLimit);
 
 export const useSetSelectedNode = () =>
   useGraphStore((state) => state.setSelectedNode);
+export const useSetSelectedNodes = () =>
+  useGraphStore((state) => state.setSelectedNodes);
+export const useToggleNodeSelection = () =>
+  useGraphStore((state) => state.toggleNodeSelection);
+export const useSelectNodesInRect = () =>
+  useGraphStore((state) => state.selectNodesInRect);
+export const useSetSelectedEdge = () =>
+  useGraphStore((state) => state.setSelectedEdge);
 export const useStartConnection = () =>
   useGraphStore((state) => state.startConnection);
 export const useUpdateConnectionPosition = () =>
@@ -487,12 +1844,43 @@ export const useCancelConnection = () =>
   useGraphStore((state) => state.cancelConnection);
 export const useShowContextMenu = () =>
   useGraphStore((state) => state.showContextMenu);
+export const useShowEdgeContextMenu = () =>
+  useGraphStore((state) => state.showEdgeContextMenu);
 export const useHideContextMenu = () =>
   useGraphStore((state) => state.hideContextMenu);
+export const useSetViewportSize = () =>
+  useGraphStore((state) => state.setViewportSize);
+export const useSetNodeSize = () => useGraphStore((state) => state.setNodeSize);
+export const useSetActiveGuides = () =>
+  useGraphStore((state) => state.setActiveGuides);
+export const useSetDiagnostics = () =>
+  useGraphStore((state) => state.setDiagnostics);
+
+export const useStartExecution = () =>
+  useGraphStore((state) => state.startExecution);
+export const useCancelExecution = () =>
+  useGraphStore((state) => state.cancelExecution);
+export const useClearExecutionCache = () =>
+  useGraphStore((state) => state.clearExecutionCache);
+export const useSetNodeRunStates = () =>
+  useGraphStore((state) => state.setNodeRunStates);
+export const useClearNodeRunStates = () =>
+  useGraphStore((state) => state.clearNodeRunStates);
 
 export const useSetNodeTypeConfigMap = () =>
   useGraphStore((state) => state.setNodeTypeConfigMap);
+export const useSetPortCompatibility = () =>
+  useGraphStore((state) => state.setPortCompatibility);
 export const useSetOnNodeChange = () =>
   useGraphStore((state) => state.setOnNodeChange);
+export const useSetOnEdgeChange = () =>
+  useGraphStore((state) => state.setOnEdgeChange);
 export const useSetOnGraphChange = () =>
   useGraphStore((state) => state.setOnGraphChange);
+export const useSetOnChanges = () =>
+  useGraphStore((state) => state.setOnChanges);
+export const useSetControlled = () =>
+  useGraphStore((state) => state.setControlled);
+export const useSetReadOnly = () => useGraphStore((state) => state.setReadOnly);
+export const useSetSnapOptions = () =>
+  useGraphStore((state) => state.setSnapOptions);
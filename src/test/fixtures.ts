@@ -0,0 +1,33 @@
+import type { Edge, Graph, Node } from "../types/graph";
+
+/** Node of type "source" at the origin, with the given fields replaced */
+export const createTestNode = (
+  id: string,
+  overrides: Partial<Node> = {}
+): Node => ({
+  id,
+  type: "source",
+  title: id,
+  position: { x: 0, y: 0 },
+  payload: {},
+  allowMultipleInputs: false,
+  ...overrides,
+});
+
+export const createTestEdge = (
+  sourceNodeId: string,
+  targetNodeId: string,
+  overrides: Partial<Edge> = {}
+): Edge => ({
+  id: `${sourceNodeId}-${targetNodeId}`,
+  sourceNodeId,
+  targetNodeId,
+  ...overrides,
+});
+
+export const createTestGraph = (graph: Partial<Graph> = {}): Graph => ({
+  nodes: [],
+  edges: [],
+  viewState: { zoom: 1, offset: { x: 0, y: 0 } },
+  ...graph,
+});
@@ -0,0 +1,45 @@
+import type { ComponentType, ReactNode } from "react";
+import type {
+  Edge,
+  EdgePathStyle,
+  Node,
+  NodeRunState,
+  NodeTypeConfig,
+  Position,
+} from "./graph";
+
+export interface NodeComponentProps {
+  node: Node;
+  nodeTypeConfig?: NodeTypeConfig;
+  selected: boolean;
+  /** Set in read-only editors and viewers, where updateNode does nothing */
+  readOnly: boolean;
+  /** Set while the node has a run state other than idle */
+  runState?: NodeRunState;
+  /** Updates this node's title or payload, recorded in the undo history */
+  updateNode: (updates: Partial<Pick<Node, "title" | "payload">>) => void;
+}
+
+export type NodeComponent = ComponentType<NodeComponentProps>;
+
+/** Returning null or undefined falls back to the built-in node card */
+export type NodeRenderer = (props: NodeComponentProps) => ReactNode;
+
+export interface EdgeComponentProps {
+  edge: Edge;
+  sourcePosition: Position;
+  targetPosition: Position;
+  /** SVG path data for the edge's path style */
+  path: string;
+  /** Point halfway along the path */
+  midpoint: Position;
+  pathStyle: EdgePathStyle;
+  selected: boolean;
+  /** Data is flowing through the edge, i.e. its target node is running */
+  flowing: boolean;
+}
+
+export type EdgeComponent = ComponentType<EdgeComponentProps>;
+
+/** Returning null or undefined falls back to the built-in edge path */
+export type EdgeRenderer = (props: EdgeComponentProps) => ReactNode;
@@ -1,10 +1,113 @@
 export type NodeType = string;
 
+export interface PortConfig {
+  id: string;
+  label?: string;
+  /** Data type such as "image" or "tracks". Untyped ports accept anything */
+  dataType?: string;
+  /** Input ports only. Defaults to the node's allowMultipleInputs */
+  allowMultiple?: boolean;
+  /** Input ports only. Reported as an error while nothing is connected */
+  required?: boolean;
+}
+
+/**
+ * Which differently typed ports may be connected. Either a matrix mapping a
+ * source data type to the target data types it can be coerced into, or a
+ * function deciding it.
+ */
+export type PortCompatibility =
+  | Record<string, string[]>
+  | ((sourceDataType: string, targetDataType: string) => boolean);
+
+interface PayloadSchemaBase {
+  /** Field label, the property name when omitted */
+  title?: string;
+  description?: string;
+}
+
+export interface StringPayloadSchema extends PayloadSchemaBase {
+  type: "string";
+  default?: string;
+  /** Allowed values, shown as a select */
+  enum?: string[];
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+}
+
+export interface NumberPayloadSchema extends PayloadSchemaBase {
+  type: "number" | "integer";
+  default?: number;
+  enum?: number[];
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface BooleanPayloadSchema extends PayloadSchemaBase {
+  type: "boolean";
+  default?: boolean;
+}
+
+export interface ArrayPayloadSchema extends PayloadSchemaBase {
+  type: "array";
+  items: PayloadSchema;
+  default?: unknown[];
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface ObjectPayloadSchema extends PayloadSchemaBase {
+  type: "object";
+  properties: Record<string, PayloadSchema>;
+  required?: string[];
+  default?: Record<string, unknown>;
+}
+
+/** Subset of JSON Schema describing a node payload */
+export type PayloadSchema =
+  | StringPayloadSchema
+  | NumberPayloadSchema
+  | BooleanPayloadSchema
+  | ArrayPayloadSchema
+  | ObjectPayloadSchema;
+
+export interface NodeExecutionContext {
+  node: Node;
+  /** Aborted when the run is cancelled */
+  signal: AbortSignal;
+  /** Shows how far the node got, from 0 to 1 */
+  reportProgress: (progress: number, message?: string) => void;
+}
+
+/**
+ * Runs a node. Inputs and outputs are keyed by port id, inputs that accept
+ * several connections receive an array.
+ */
+export type NodeExecutor = (
+  inputs: Record<string, unknown>,
+  payload: Record<string, unknown>,
+  context: NodeExecutionContext
+) => Promise<Record<string, unknown>>;
+
 export interface NodeTypeConfig {
   id: string;
   label: string;
   color: string;
   allowMultipleInputs?: boolean;
+  /** Named input ports. A single unnamed input is used when omitted */
+  inputs?: PortConfig[];
+  /** Named output ports. A single unnamed output is used when omitted */
+  outputs?: PortConfig[];
+  /** Size of new nodes of this type (default: 200×80) */
+  defaultSize?: Size;
+  /** Limits when resizing nodes of this type */
+  minSize?: Size;
+  maxSize?: Size;
+  /** Fields of the properties form, their defaults seed new nodes' payload */
+  payloadSchema?: ObjectPayloadSchema;
+  /** Handler running nodes of this type when the graph is executed */
+  execute?: NodeExecutor;
 }
 
 export interface Position {
@@ -12,6 +115,18 @@ export interface Position {
   y: number;
 }
 
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 export interface ContextMenuItem {
   id: string;
   label: string;
@@ -35,15 +150,51 @@ export interface Node {
   type: NodeType;
   title: string;
   position: Position;
+  /** Size set by resizing the node, overrides the node type's default */
+  size?: Size;
   payload: Record<string, unknown>;
   allowMultipleInputs: boolean;
   contextMenuItems?: ContextMenuItem[];
 }
 
+export type EdgePathStyle = "bezier" | "straight" | "step" | "smoothstep";
+
 export interface Edge {
   id: string;
   sourceNodeId: string;
   targetNodeId: string;
+  sourcePortId?: string;
+  targetPortId?: string;
+  /** Looks up a custom component in edgeComponents */
+  type?: string;
+  /** Overrides the editor-wide edge path style */
+  pathStyle?: EdgePathStyle;
+  /** Text drawn at the middle of the edge */
+  label?: string;
+  /** Per-connection settings, e.g. a queue size */
+  payload?: Record<string, unknown>;
+}
+
+/** Titled frame behind a stage of the pipeline, moved with its nodes */
+export interface Group {
+  id: string;
+  title: string;
+  /** Hex frame color (default: the theme's primary color) */
+  color?: string;
+  nodeIds: string[];
+  /** Shown as a single proxy node with external edges attached to it */
+  collapsed?: boolean;
+}
+
+/** Free-floating markdown annotation, not part of the pipeline */
+export interface Note {
+  id: string;
+  position: Position;
+  size: Size;
+  /** Markdown text */
+  text: string;
+  /** Hex background color (default: a pale yellow) */
+  color?: string;
 }
 
 export interface ViewState {
@@ -54,12 +205,85 @@ export interface ViewState {
 export interface Graph {
   nodes: Node[];
   edges: Edge[];
+  groups?: Group[];
+  notes?: Note[];
   viewState: ViewState;
 }
 
+/** A single edit of the graph, reported by onChanges and accepted by applyChanges */
+export type GraphChange =
+  | { type: "node-added"; node: Node }
+  | { type: "node-removed"; node: Node }
+  | { type: "node-updated"; nodeId: string; before: Node; after: Node }
+  | { type: "node-moved"; nodeId: string; from: Position; to: Position }
+  | { type: "edge-added"; edge: Edge }
+  | { type: "edge-removed"; edge: Edge }
+  | { type: "edge-updated"; edgeId: string; before: Edge; after: Edge }
+  | { type: "group-added"; group: Group }
+  | { type: "group-removed"; group: Group }
+  | { type: "group-updated"; groupId: string; before: Group; after: Group }
+  | { type: "note-added"; note: Note }
+  | { type: "note-removed"; note: Note }
+  | { type: "note-updated"; noteId: string; before: Note; after: Note }
+  | { type: "viewport-changed"; before: ViewState; after: ViewState };
+
+export interface GraphClipboardData {
+  format: "react-graph-tree/subgraph";
+  version: 1;
+  nodes: Node[];
+  edges: Edge[];
+}
+
 export interface Port {
   nodeId: string;
   type: "input" | "output";
+  portId?: string;
+}
+
+export type ConnectionErrorCode =
+  | "self-connection"
+  | "duplicate-connection"
+  | "node-not-found"
+  | "port-not-found"
+  | "input-limit"
+  | "cycle"
+  | "incompatible-types";
+
+export interface ConnectionValidation {
+  valid: boolean;
+  code?: ConnectionErrorCode;
+  reason?: string;
+  sourceDataType?: string;
+  targetDataType?: string;
+}
+
+export type NodeRunStatus =
+  | "idle"
+  | "queued"
+  | "running"
+  | "success"
+  | "error"
+  | "skipped";
+
+/** Run state of a node shown on the canvas, e.g. pushed from a backend */
+export interface NodeRunState {
+  status: NodeRunStatus;
+  /** From 0 to 1, shown as a progress bar while running */
+  progress?: number;
+  /** Shown as a tooltip, e.g. the error */
+  message?: string;
+}
+
+export type DiagnosticSeverity = "error" | "warning";
+
+/** Problem found by a validation rule, attached to a node or an edge */
+export interface GraphDiagnostic {
+  severity: DiagnosticSeverity;
+  /** Rule-specific code such as "unknown-type" or "orphan-node" */
+  code: string;
+  message: string;
+  nodeId?: string;
+  edgeId?: string;
 }
 
 export interface ConnectionState {
@@ -71,7 +295,8 @@ export interface ConnectionState {
 export interface ContextMenuState {
   isVisible: boolean;
   position: { x: number; y: number };
-  type: "canvas" | "node";
+  type: "canvas" | "node" | "edge";
   nodeId?: string;
+  edgeId?: string;
   canvasPosition?: Position;
 }
@@ -1,3 +1,5 @@
+import type { NodeTypeConfig } from "./graph";
+
 export interface Theme {
   colors: {
     primary: string;
@@ -99,3 +101,24 @@ export const defaultTheme: Theme = {
     lg: "0 10px 15px rgba(0, 0, 0, 0.1)",
   },
 };
+
+/** Default theme with overrides, plus a color per node type */
+export const createTheme = (
+  nodeTypes: NodeTypeConfig[],
+  theme?: Partial<Theme>
+): Theme => {
+  const nodeTypeColors: Record<string, string> = {};
+  nodeTypes.forEach((nodeType) => {
+    nodeTypeColors[nodeType.id] = nodeType.color;
+  });
+
+  return {
+    ...defaultTheme,
+    ...theme,
+    colors: {
+      ...defaultTheme.colors,
+      ...theme?.colors,
+      ...nodeTypeColors,
+    },
+  };
+};
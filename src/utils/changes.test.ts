@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { applyChanges, getGraphChanges } from "./changes";
+import type { Graph } from "../types/graph";
+import {
+  createTestEdge,
+  createTestGraph,
+  createTestNode,
+} from "../test/fixtures";
+
+const graph = createTestGraph({
+  nodes: [createTestNode("a"), createTestNode("b")],
+  edges: [createTestEdge("a", "b")],
+});
+
+describe("getGraphChanges", () => {
+  it("reports nothing for the same graph", () => {
+    expect(getGraphChanges(graph, { ...graph })).toEqual([]);
+  });
+
+  it("removes edges before their nodes and adds nodes before edges", () => {
+    const after: Graph = {
+      ...graph,
+      nodes: [graph.nodes[1], createTestNode("c")],
+      edges: [createTestEdge("b", "c")],
+    };
+
+    expect(getGraphChanges(graph, after).map((change) => change.type)).toEqual([
+      "edge-removed",
+      "node-removed",
+      "node-added",
+      "edge-added",
+    ]);
+  });
+
+  it("reports a position-only update as a move", () => {
+    const after: Graph = {
+      ...graph,
+      nodes: [{ ...graph.nodes[0], position: { x: 5, y: 5 } }, graph.nodes[1]],
+    };
+
+    expect(getGraphChanges(graph, after)).toEqual([
+      {
+        type: "node-moved",
+        nodeId: "a",
+        from: { x: 0, y: 0 },
+        to: { x: 5, y: 5 },
+      },
+    ]);
+  });
+
+  it("reports other field changes as an update", () => {
+    const moved = { ...graph.nodes[0], title: "A", position: { x: 5, y: 5 } };
+    const after: Graph = { ...graph, nodes: [moved, graph.nodes[1]] };
+
+    expect(getGraphChanges(graph, after)).toEqual([
+      {
+        type: "node-updated",
+        nodeId: "a",
+        before: graph.nodes[0],
+        after: moved,
+      },
+    ]);
+  });
+
+  it("reports group changes", () => {
+    const group = { id: "g", title: "G", nodeIds: ["a"] };
+    const renamed = { ...group, title: "Renamed" };
+
+    expect(getGraphChanges(graph, { ...graph, groups: [group] })).toEqual([
+      { type: "group-added", group },
+    ]);
+    expect(
+      getGraphChanges(
+        { ...graph, groups: [group] },
+        { ...graph, groups: [renamed] }
+      )
+    ).toEqual([
+      { type: "group-updated", groupId: "g", before: group, after: renamed },
+    ]);
+  });
+
+  it("reports note changes", () => {
+    const note = {
+      id: "n",
+      text: "Note",
+      position: { x: 0, y: 0 },
+      size: { width: 100, height: 100 },
+    };
+
+    expect(getGraphChanges({ ...graph, notes: [note] }, graph)).toEqual([
+      { type: "note-removed", note },
+    ]);
+  });
+
+  it("reports a viewport change", () => {
+    const after: Graph = {
+      ...graph,
+      viewState: { zoom: 2, offset: { x: 0, y: 0 } },
+    };
+
+    expect(getGraphChanges(graph, after)).toEqual([
+      {
+        type: "viewport-changed",
+        before: graph.viewState,
+        after: after.viewState,
+      },
+    ]);
+  });
+});
+
+describe("applyChanges", () => {
+  it("turns the before graph into the after graph", () => {
+    const after: Graph = {
+      ...graph,
+      nodes: [
+        { ...graph.nodes[0], position: { x: 5, y: 5 } },
+        { ...graph.nodes[1], title: "B" },
+        createTestNode("c"),
+      ],
+      edges: [createTestEdge("b", "c")],
+      groups: [{ id: "g", title: "G", nodeIds: ["a", "b"] }],
+      viewState: { zoom: 2, offset: { x: 10, y: 0 } },
+    };
+
+    expect(applyChanges(graph, getGraphChanges(graph, after))).toEqual(after);
+  });
+
+  it("removes the edges of a removed node", () => {
+    const result = applyChanges(graph, [
+      { type: "node-removed", node: graph.nodes[0] },
+    ]);
+
+    expect(result.edges).toEqual([]);
+  });
+
+  it("skips changes that no longer fit the graph", () => {
+    const result = applyChanges(graph, [
+      { type: "node-added", node: graph.nodes[0] },
+      {
+        type: "node-moved",
+        nodeId: "x",
+        from: { x: 0, y: 0 },
+        to: { x: 1, y: 1 },
+      },
+    ]);
+
+    expect(result.nodes).toEqual(graph.nodes);
+  });
+});
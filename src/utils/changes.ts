@@ -0,0 +1,254 @@
+import type {
+  Edge,
+  Graph,
+  GraphChange,
+  Group,
+  Node,
+  Note,
+} from "../types/graph";
+
+// Compares two nodes field by field, ignoring the given key
+const hasOtherChanges = (before: Node, after: Node, ignored: keyof Node) => {
+  const keys = [...Object.keys(before), ...Object.keys(after)];
+  return (keys as Array<keyof Node>).some(
+    (key) => key !== ignored && before[key] !== after[key]
+  );
+};
+
+/**
+ * Lists the changes that turn `before` into `after`. They are ordered so that
+ * applying them in sequence works: edges are removed before their nodes and
+ * nodes are added before their edges.
+ */
+export const getGraphChanges = (before: Graph, after: Graph): GraphChange[] => {
+  const changes: GraphChange[] = [];
+  const beforeGroups = new Map(
+    (before.groups ?? []).map((group) => [group.id, group])
+  );
+  const afterGroups = new Map(
+    (after.groups ?? []).map((group) => [group.id, group])
+  );
+  const groupsChanged = before.groups !== after.groups;
+
+  if (groupsChanged) {
+    beforeGroups.forEach((group) => {
+      if (!afterGroups.has(group.id)) {
+        changes.push({ type: "group-removed", group });
+      }
+    });
+  }
+
+  if (before.nodes !== after.nodes || before.edges !== after.edges) {
+    const beforeNodes = new Map(before.nodes.map((node) => [node.id, node]));
+    const afterNodes = new Map(after.nodes.map((node) => [node.id, node]));
+    const beforeEdges = new Map(before.edges.map((edge) => [edge.id, edge]));
+    const afterEdges = new Map(after.edges.map((edge) => [edge.id, edge]));
+
+    before.edges.forEach((edge) => {
+      if (!afterEdges.has(edge.id)) {
+        changes.push({ type: "edge-removed", edge });
+      }
+    });
+    before.nodes.forEach((node) => {
+      if (!afterNodes.has(node.id)) {
+        changes.push({ type: "node-removed", node });
+      }
+    });
+    after.nodes.forEach((node) => {
+      if (!beforeNodes.has(node.id)) {
+        changes.push({ type: "node-added", node });
+      }
+    });
+    after.edges.forEach((edge) => {
+      if (!beforeEdges.has(edge.id)) {
+        changes.push({ type: "edge-added", edge });
+      }
+    });
+
+    after.nodes.forEach((node) => {
+      const previous = beforeNodes.get(node.id);
+      if (!previous || previous === node) return;
+
+      if (hasOtherChanges(previous, node, "position")) {
+        changes.push({
+          type: "node-updated",
+          nodeId: node.id,
+          before: previous,
+          after: node,
+        });
+      } else if (
+        previous.position.x !== node.position.x ||
+        previous.position.y !== node.position.y
+      ) {
+        changes.push({
+          type: "node-moved",
+          nodeId: node.id,
+          from: previous.position,
+          to: node.position,
+        });
+      }
+    });
+    after.edges.forEach((edge) => {
+      const previous = beforeEdges.get(edge.id);
+      if (!previous || previous === edge) return;
+
+      changes.push({
+        type: "edge-updated",
+        edgeId: edge.id,
+        before: previous,
+        after: edge,
+      });
+    });
+  }
+
+  // Groups are added after their nodes so their members exist
+  if (groupsChanged) {
+    afterGroups.forEach((group) => {
+      const previous = beforeGroups.get(group.id);
+      if (!previous) {
+        changes.push({ type: "group-added", group });
+      } else if (previous !== group) {
+        changes.push({
+          type: "group-updated",
+          groupId: group.id,
+          before: previous,
+          after: group,
+        });
+      }
+    });
+  }
+
+  if (before.notes !== after.notes) {
+    const beforeNotes = new Map(
+      (before.notes ?? []).map((note) => [note.id, note])
+    );
+    const afterNotes = new Map(
+      (after.notes ?? []).map((note) => [note.id, note])
+    );
+
+    beforeNotes.forEach((note) => {
+      if (!afterNotes.has(note.id)) {
+        changes.push({ type: "note-removed", note });
+      }
+    });
+    afterNotes.forEach((note) => {
+      const previous = beforeNotes.get(note.id);
+      if (!previous) {
+        changes.push({ type: "note-added", note });
+      } else if (previous !== note) {
+        changes.push({
+          type: "note-updated",
+          noteId: note.id,
+          before: previous,
+          after: note,
+        });
+      }
+    });
+  }
+
+  if (
+    before.viewState.zoom !== after.viewState.zoom ||
+    before.viewState.offset.x !== after.viewState.offset.x ||
+    before.viewState.offset.y !== after.viewState.offset.y
+  ) {
+    changes.push({
+      type: "viewport-changed",
+      before: before.viewState,
+      after: after.viewState,
+    });
+  }
+
+  return changes;
+};
+
+const replaceNode = (graph: Graph, nodeId: string, node: Node): Graph => ({
+  ...graph,
+  nodes: graph.nodes.map((n) => (n.id === nodeId ? node : n)),
+});
+
+const replaceEdge = (graph: Graph, edgeId: string, edge: Edge): Graph => ({
+  ...graph,
+  edges: graph.edges.map((e) => (e.id === edgeId ? edge : e)),
+});
+
+const replaceGroup = (graph: Graph, groupId: string, group: Group): Graph => ({
+  ...graph,
+  groups: graph.groups?.map((g) => (g.id === groupId ? group : g)),
+});
+
+const replaceNote = (graph: Graph, noteId: string, note: Note): Graph => ({
+  ...graph,
+  notes: graph.notes?.map((n) => (n.id === noteId ? note : n)),
+});
+
+/**
+ * Applies changes in order. Changes that no longer fit the graph, e.g. an
+ * update of a removed node, are skipped.
+ */
+export const applyChanges = (graph: Graph, changes: GraphChange[]): Graph =>
+  changes.reduce((current, change): Graph => {
+    switch (change.type) {
+      case "node-added":
+        return current.nodes.some((node) => node.id === change.node.id)
+          ? current
+          : { ...current, nodes: [...current.nodes, change.node] };
+      case "node-removed":
+        return {
+          ...current,
+          nodes: current.nodes.filter((node) => node.id !== change.node.id),
+          edges: current.edges.filter(
+            (edge) =>
+              edge.sourceNodeId !== change.node.id &&
+              edge.targetNodeId !== change.node.id
+          ),
+        };
+      case "node-updated":
+        return replaceNode(current, change.nodeId, change.after);
+      case "node-moved": {
+        const node = current.nodes.find((n) => n.id === change.nodeId);
+        return node
+          ? replaceNode(current, change.nodeId, {
+              ...node,
+              position: change.to,
+            })
+          : current;
+      }
+      case "edge-added":
+        return current.edges.some((edge) => edge.id === change.edge.id)
+          ? current
+          : { ...current, edges: [...current.edges, change.edge] };
+      case "edge-removed":
+        return {
+          ...current,
+          edges: current.edges.filter((edge) => edge.id !== change.edge.id),
+        };
+      case "edge-updated":
+        return replaceEdge(current, change.edgeId, change.after);
+      case "group-added":
+        return current.groups?.some((group) => group.id === change.group.id)
+          ? current
+          : { ...current, groups: [...(current.groups ?? []), change.group] };
+      case "group-removed":
+        return {
+          ...current,
+          groups: current.groups?.filter(
+            (group) => group.id !== change.group.id
+          ),
+        };
+      case "group-updated":
+        return replaceGroup(current, change.groupId, change.after);
+      case "note-added":
+        return current.notes?.some((note) => note.id === change.note.id)
+          ? current
+          : { ...current, notes: [...(current.notes ?? []), change.note] };
+      case "note-removed":
+        return {
+          ...current,
+          notes: current.notes?.filter((note) => note.id !== change.note.id),
+        };
+      case "note-updated":
+        return replaceNote(current, change.noteId, change.after);
+      case "viewport-changed":
+        return { ...current, viewState: change.after };
+    }
+  }, graph);
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { parseClipboardText, serializeSubgraph } from "./clipboard";
+import {
+  createTestEdge,
+  createTestGraph,
+  createTestNode,
+} from "../test/fixtures";
+
+const graph = createTestGraph({
+  nodes: [createTestNode("a"), createTestNode("b"), createTestNode("c")],
+  edges: [createTestEdge("a", "b"), createTestEdge("b", "c")],
+});
+
+describe("serializeSubgraph", () => {
+  it("keeps only the edges between copied nodes", () => {
+    const data = serializeSubgraph(["a", "b"], graph);
+
+    expect(data.nodes.map((node) => node.id)).toEqual(["a", "b"]);
+    expect(data.edges).toEqual([createTestEdge("a", "b")]);
+  });
+});
+
+describe("parseClipboardText", () => {
+  it("reads serialized subgraphs back", () => {
+    const data = serializeSubgraph(["a", "b"], graph);
+
+    expect(parseClipboardText(JSON.stringify(data))).toEqual(data);
+  });
+
+  it("rejects text that isn't a subgraph", () => {
+    expect(parseClipboardText("not json")).toBeNull();
+    expect(parseClipboardText(JSON.stringify({ nodes: [] }))).toBeNull();
+  });
+
+  it("rejects other versions and malformed nodes", () => {
+    const data = serializeSubgraph(["a"], graph);
+
+    const otherVersion = { ...data, version: 2 };
+
+    expect(parseClipboardText(JSON.stringify(otherVersion))).toBeNull();
+    expect(
+      parseClipboardText(JSON.stringify({ ...data, nodes: [{ id: "a" }] }))
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+import type { Graph, GraphClipboardData, Node } from "../types/graph";
+
+const CLIPBOARD_FORMAT = "react-graph-tree/subgraph";
+const CLIPBOARD_VERSION = 1;
+
+// Fallback for browsers where the async clipboard API is unavailable
+let lastCopiedText: string | null = null;
+
+export const serializeSubgraph = (
+  nodeIds: Iterable<string>,
+  graph: Graph
+): GraphClipboardData => {
+  const nodeIdSet = new Set(nodeIds);
+
+  return {
+    format: CLIPBOARD_FORMAT,
+    version: CLIPBOARD_VERSION,
+    nodes: graph.nodes.filter((node) => nodeIdSet.has(node.id)),
+    edges: graph.edges.filter(
+      (edge) =>
+        nodeIdSet.has(edge.sourceNodeId) && nodeIdSet.has(edge.targetNodeId)
+    ),
+  };
+};
+
+const isClipboardNode = (value: unknown): boolean => {
+  const node = value as Partial<Node> | null;
+  return (
+    typeof node?.id === "string" &&
+    typeof node.type === "string" &&
+    typeof node.position?.x === "number" &&
+    typeof node.position?.y === "number"
+  );
+};
+
+export const parseClipboardText = (text: string): GraphClipboardData | null => {
+  try {
+    const data = JSON.parse(text);
+    if (
+      data?.format !== CLIPBOARD_FORMAT ||
+      data.version !== CLIPBOARD_VERSION ||
+      !Array.isArray(data.nodes) ||
+      !Array.isArray(data.edges) ||
+      !data.nodes.every(isClipboardNode)
+    ) {
+      return null;
+    }
+    return data as GraphClipboardData;
+  } catch {
+    return null;
+  }
+};
+
+// Synchronous variants for native copy/cut/paste events
+export const setClipboardEventData = (
+  e: ClipboardEvent,
+  data: GraphClipboardData
+): void => {
+  const text = JSON.stringify(data);
+  lastCopiedText = text;
+  e.clipboardData?.setData("text/plain", text);
+};
+
+export const getClipboardEventData = (
+  e: ClipboardEvent
+): GraphClipboardData | null => {
+  const text = e.clipboardData?.getData("text/plain");
+  return text ? parseClipboardText(text) : null;
+};
+
+export const writeClipboardData = async (
+  data: GraphClipboardData
+): Promise<void> => {
+  const text = JSON.stringify(data);
+  lastCopiedText = text;
+
+  try {
+    await navigator.clipboard?.writeText(text);
+  } catch (error) {
+    console.warn("Failed to write to the system clipboard:", error);
+  }
+};
+
+export const readClipboardData =
+  async (): Promise<GraphClipboardData | null> => {
+    if (navigator.clipboard) {
+      try {
+        return parseClipboardText(await navigator.clipboard.readText());
+      } catch (error) {
+        console.warn("Failed to read from the system clipboard:", error);
+      }
+    }
+
+    return lastCopiedText ? parseClipboardText(lastCopiedText) : null;
+  };
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { getEdgePath } from "./edgePath";
+
+const source = { x: 0, y: 0 };
+const target = { x: 200, y: 100 };
+
+describe("getEdgePath", () => {
+  it("draws a bezier curve by default", () => {
+    const { path, midpoint } = getEdgePath(source, target);
+
+    expect(path).toBe("M 0 0 C 100 0, 100 100, 200 100");
+    expect(midpoint).toEqual({ x: 100, y: 50 });
+  });
+
+  it("draws a straight line", () => {
+    expect(getEdgePath(source, target, "straight")).toEqual({
+      path: "M 0 0 L 200 100",
+      midpoint: { x: 100, y: 50 },
+    });
+  });
+
+  it("turns halfway between the ports for step edges", () => {
+    expect(getEdgePath(source, target, "step")).toEqual({
+      path: "M 0 0 L 100 0 L 100 100 L 200 100",
+      midpoint: { x: 100, y: 50 },
+    });
+  });
+
+  it("rounds the corners of smooth step edges", () => {
+    const { path } = getEdgePath(source, target, "smoothstep");
+
+    expect(path).toBe(
+      "M 0 0 L 92 0 Q 100 0, 100 8 L 100 92 Q 100 100, 108 100 L 200 100"
+    );
+  });
+
+  it("routes step edges around a target behind the source", () => {
+    const { path } = getEdgePath(target, source, "step");
+
+    expect(path).toBe("M 200 100 L 220 100 L 220 50 L -20 50 L -20 0 L 0 0");
+  });
+});
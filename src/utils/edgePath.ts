@@ -0,0 +1,140 @@
+import type { EdgePathStyle, Position } from "../types/graph";
+
+export const DEFAULT_EDGE_PATH_STYLE: EdgePathStyle = "bezier";
+
+// Horizontal distance kept from a port before a step edge turns
+const STEP_OFFSET = 20;
+const SMOOTH_STEP_RADIUS = 8;
+
+export interface EdgePath {
+  path: string;
+  /** Point halfway along the path, used to place labels */
+  midpoint: Position;
+}
+
+const getBezierPath = (source: Position, target: Position): EdgePath => {
+  const dx = target.x - source.x;
+
+  const controlPointOffset = Math.max(Math.abs(dx) * 0.5, 100);
+  const cp1 = { x: source.x + controlPointOffset, y: source.y };
+  const cp2 = { x: target.x - controlPointOffset, y: target.y };
+
+  return {
+    path: `M ${source.x} ${source.y} C ${cp1.x} ${cp1.y}, ${cp2.x} ${cp2.y}, ${target.x} ${target.y}`,
+    // Cubic bezier evaluated at t = 0.5
+    midpoint: {
+      x: (source.x + 3 * cp1.x + 3 * cp2.x + target.x) / 8,
+      y: (source.y + 3 * cp1.y + 3 * cp2.y + target.y) / 8,
+    },
+  };
+};
+
+const getStraightPath = (source: Position, target: Position): EdgePath => ({
+  path: `M ${source.x} ${source.y} L ${target.x} ${target.y}`,
+  midpoint: {
+    x: (source.x + target.x) / 2,
+    y: (source.y + target.y) / 2,
+  },
+});
+
+// Orthogonal route leaving the source rightwards, entering the target leftwards
+const getStepPoints = (source: Position, target: Position): Position[] => {
+  if (target.x >= source.x + STEP_OFFSET * 2) {
+    const midX = (source.x + target.x) / 2;
+    return [source, { x: midX, y: source.y }, { x: midX, y: target.y }, target];
+  }
+
+  // The target is behind the source, so route around through the middle
+  const midY = (source.y + target.y) / 2;
+  return [
+    source,
+    { x: source.x + STEP_OFFSET, y: source.y },
+    { x: source.x + STEP_OFFSET, y: midY },
+    { x: target.x - STEP_OFFSET, y: midY },
+    { x: target.x - STEP_OFFSET, y: target.y },
+    target,
+  ];
+};
+
+const getDistance = (a: Position, b: Position) =>
+  Math.hypot(b.x - a.x, b.y - a.y);
+
+const moveTowards = (from: Position, to: Position, distance: number) => {
+  const length = getDistance(from, to);
+  if (length === 0) return from;
+  return {
+    x: from.x + ((to.x - from.x) / length) * distance,
+    y: from.y + ((to.y - from.y) / length) * distance,
+  };
+};
+
+const getPolylineMidpoint = (points: Position[]): Position => {
+  const segmentLengths = points
+    .slice(1)
+    .map((point, index) => getDistance(points[index], point));
+  let remaining = segmentLengths.reduce((sum, length) => sum + length, 0) / 2;
+
+  for (let index = 0; index < segmentLengths.length; index++) {
+    if (remaining <= segmentLengths[index]) {
+      return moveTowards(points[index], points[index + 1], remaining);
+    }
+    remaining -= segmentLengths[index];
+  }
+
+  return points[points.length - 1];
+};
+
+const getPolylinePath = (points: Position[], radius: number): string => {
+  const commands = [`M ${points[0].x} ${points[0].y}`];
+
+  for (let index = 1; index < points.length - 1; index++) {
+    const previous = points[index - 1];
+    const corner = points[index];
+    const next = points[index + 1];
+    const cornerRadius = Math.min(
+      radius,
+      getDistance(previous, corner) / 2,
+      getDistance(corner, next) / 2
+    );
+
+    if (cornerRadius === 0) {
+      commands.push(`L ${corner.x} ${corner.y}`);
+      continue;
+    }
+
+    const start = moveTowards(corner, previous, cornerRadius);
+    const end = moveTowards(corner, next, cornerRadius);
+    commands.push(
+      `L ${start.x} ${start.y}`,
+      `Q ${corner.x} ${corner.y}, ${end.x} ${end.y}`
+    );
+  }
+
+  const last = points[points.length - 1];
+  commands.push(`L ${last.x} ${last.y}`);
+  return commands.join(" ");
+};
+
+export const getEdgePath = (
+  source: Position,
+  target: Position,
+  style: EdgePathStyle = DEFAULT_EDGE_PATH_STYLE
+): EdgePath => {
+  switch (style) {
+    case "straight":
+      return getStraightPath(source, target);
+    case "step":
+    case "smoothstep": {
+      const points = getStepPoints(source, target);
+      return {
+        path: getPolylinePath(
+          points,
+          style === "smoothstep" ? SMOOTH_STEP_RADIUS : 0
+        ),
+        midpoint: getPolylineMidpoint(points),
+      };
+    }
+    default:
+      return getBezierPath(source, target);
+  }
+};
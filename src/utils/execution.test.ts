@@ -0,0 +1,145 @@
+import { describe, expect, it, vi } from "vitest";
+import { createExecutionCache, executeGraph } from "./execution";
+import type { Graph, NodeExecutor, NodeTypeConfig } from "../types/graph";
+import {
+  createTestEdge,
+  createTestGraph,
+  createTestNode,
+} from "../test/fixtures";
+
+// a → b → c, a passes its payload value down and b doubles it
+const graph = createTestGraph({
+  nodes: [
+    createTestNode("a", { type: "number", payload: { value: 2 } }),
+    createTestNode("b", { type: "double" }),
+    createTestNode("c", { type: "double" }),
+  ],
+  edges: [createTestEdge("a", "b"), createTestEdge("b", "c")],
+});
+
+const createConfigMap = (executeDouble: NodeExecutor) =>
+  new Map<string, NodeTypeConfig>([
+    [
+      "number",
+      {
+        id: "number",
+        label: "Number",
+        color: "#000",
+        execute: async (_inputs, payload) => ({ output: payload.value }),
+      },
+    ],
+    [
+      "double",
+      { id: "double", label: "Double", color: "#000", execute: executeDouble },
+    ],
+  ]);
+
+const double: NodeExecutor = async (inputs) => ({
+  output: (inputs.input as number) * 2,
+});
+
+describe("executeGraph", () => {
+  it("runs the nodes in topological order", async () => {
+    const result = await executeGraph(graph, createConfigMap(double));
+
+    expect(result.status).toBe("completed");
+    expect(result.outputs.get("c")).toEqual({ output: 8 });
+  });
+
+  it("skips the nodes downstream of a failure", async () => {
+    const onNodeStatus = vi.fn();
+    const result = await executeGraph(
+      graph,
+      createConfigMap(async () => {
+        throw new Error("Failed");
+      }),
+      { onNodeStatus }
+    );
+
+    expect(result.status).toBe("failed");
+    expect(result.errors.has("b")).toBe(true);
+    expect(onNodeStatus).toHaveBeenCalledWith("c", "skipped");
+  });
+
+  it("reuses cached outputs of unchanged nodes", async () => {
+    const cache = createExecutionCache();
+    const execute = vi.fn(double);
+    await executeGraph(graph, createConfigMap(execute), { cache });
+    await executeGraph(graph, createConfigMap(execute), { cache });
+    expect(execute).toHaveBeenCalledTimes(2);
+
+    const changed: Graph = {
+      ...graph,
+      nodes: [
+        createTestNode("a", { type: "number", payload: { value: 3 } }),
+        ...graph.nodes.slice(1),
+      ],
+    };
+    const result = await executeGraph(changed, createConfigMap(execute), {
+      cache,
+    });
+    expect(execute).toHaveBeenCalledTimes(4);
+    expect(result.outputs.get("c")).toEqual({ output: 12 });
+  });
+
+  it("runs at most `concurrency` nodes at the same time", async () => {
+    const independent = createTestGraph({
+      nodes: ["a", "b", "c", "d"].map((id) =>
+        createTestNode(id, { type: "double" })
+      ),
+    });
+    let running = 0;
+    let maxRunning = 0;
+    const execute: NodeExecutor = async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      running--;
+      return {};
+    };
+
+    const result = await executeGraph(independent, createConfigMap(execute), {
+      concurrency: 2,
+    });
+
+    expect(result.status).toBe("completed");
+    expect(maxRunning).toBe(2);
+  });
+
+  it.each([0, -1, NaN])(
+    "still runs with a concurrency of %s",
+    async (concurrency) => {
+      const result = await executeGraph(graph, createConfigMap(double), {
+        concurrency,
+      });
+
+      expect(result.status).toBe("completed");
+    }
+  );
+
+  it("resolves as cancelled when aborted", async () => {
+    const controller = new AbortController();
+    const promise = executeGraph(
+      graph,
+      createConfigMap(() => new Promise(() => {})),
+      { signal: controller.signal }
+    );
+    controller.abort();
+
+    expect((await promise).status).toBe("cancelled");
+  });
+});
+
+describe("createExecutionCache", () => {
+  it("drops the least recently used outputs beyond its size", () => {
+    const cache = createExecutionCache(2);
+    cache.set("a", { output: 1 });
+    cache.set("b", { output: 2 });
+    cache.get("a");
+    cache.set("c", { output: 3 });
+
+    expect(cache.get("a")).toEqual({ output: 1 });
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("c")).toEqual({ output: 3 });
+  });
+});
@@ -0,0 +1,343 @@
+import type { Edge, Graph, Node, NodeTypeConfig } from "../types/graph";
+import {
+  getEdgeSourcePortId,
+  getEdgeTargetPortId,
+  getNodeTypePorts,
+} from "./graph";
+import { isPlainObject } from "./schema";
+
+/** Values of a node's output ports keyed by port id */
+export type NodeOutputs = Record<string, unknown>;
+
+export type NodeExecutionStatus =
+  | "queued"
+  | "running"
+  | "completed"
+  | "cached"
+  | "failed"
+  | "skipped"
+  | "cancelled";
+
+/**
+ * Outputs of earlier runs keyed by node type, payload and inputs. A plain
+ * Map works too, but keeps every entry
+ */
+export interface ExecutionCache {
+  get: (key: string) => NodeOutputs | undefined;
+  set: (key: string, outputs: NodeOutputs) => void;
+  clear: () => void;
+}
+
+export const DEFAULT_EXECUTION_CACHE_SIZE = 500;
+
+/** Cache that drops the least recently used outputs beyond maxSize entries */
+export const createExecutionCache = (
+  maxSize = DEFAULT_EXECUTION_CACHE_SIZE
+): ExecutionCache => {
+  // Maps keep insertion order, so the first key is the least recently used
+  const entries = new Map<string, NodeOutputs>();
+
+  return {
+    get: (key) => {
+      const outputs = entries.get(key);
+      if (outputs) {
+        entries.delete(key);
+        entries.set(key, outputs);
+      }
+      return outputs;
+    },
+    set: (key, outputs) => {
+      entries.delete(key);
+      entries.set(key, outputs);
+      while (entries.size > Math.max(0, maxSize)) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+    clear: () => entries.clear(),
+  };
+};
+
+export const DEFAULT_EXECUTION_CONCURRENCY = 4;
+
+export interface ExecutionOptions {
+  /** Nodes running at the same time (default: 4) */
+  concurrency?: number;
+  signal?: AbortSignal;
+  /** Nodes found here are not run again, new outputs are added */
+  cache?: ExecutionCache;
+  /**
+   * Runs only these nodes, the nodes downstream of them and the upstream
+   * nodes they need. The whole graph runs when omitted
+   */
+  nodeIds?: string[];
+  onNodeStatus?: (
+    nodeId: string,
+    status: NodeExecutionStatus,
+    error?: unknown
+  ) => void;
+  /** Progress reported by a running node's handler */
+  onNodeProgress?: (nodeId: string, progress: number, message?: string) => void;
+}
+
+export interface ExecutionResult {
+  status: "completed" | "failed" | "cancelled";
+  outputs: Map<string, NodeOutputs>;
+  errors: Map<string, unknown>;
+}
+
+// Object keys are sorted so equal payloads always give the same key
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (isPlainObject(value)) {
+    const entries = Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+};
+
+// 53-bit hash (cyrb53), keeps keys short however deep the graph is
+const hashString = (text: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+/**
+ * Inputs are identified by the keys of the nodes producing them, so a
+ * changed payload changes the keys of every node downstream of it
+ */
+const getCacheKey = (
+  node: Node,
+  incomingEdges: Edge[],
+  cacheKeys: Map<string, string>
+) =>
+  hashString(
+    stableStringify({
+      type: node.type,
+      payload: node.payload,
+      inputs: incomingEdges.map((edge) => [
+        getEdgeTargetPortId(edge),
+        cacheKeys.get(edge.sourceNodeId),
+        getEdgeSourcePortId(edge),
+      ]),
+    })
+  );
+
+const collectInputs = (
+  node: Node,
+  incomingEdges: Edge[],
+  outputs: Map<string, NodeOutputs>,
+  nodeTypeConfig?: NodeTypeConfig
+) => {
+  const ports = getNodeTypePorts(nodeTypeConfig).inputs;
+  const inputs: Record<string, unknown> = {};
+
+  incomingEdges.forEach((edge) => {
+    const portId = getEdgeTargetPortId(edge);
+    const port = ports.find((input) => input.id === portId);
+    const value = outputs.get(edge.sourceNodeId)?.[getEdgeSourcePortId(edge)];
+
+    if (port?.allowMultiple ?? node.allowMultipleInputs) {
+      const values = (inputs[portId] as unknown[] | undefined) ?? [];
+      inputs[portId] = [...values, value];
+    } else {
+      inputs[portId] = value;
+    }
+  });
+  return inputs;
+};
+
+const groupEdges = (edges: Edge[], key: "sourceNodeId" | "targetNodeId") => {
+  const result = new Map<string, Edge[]>();
+  edges.forEach((edge) => {
+    result.set(edge[key], [...(result.get(edge[key]) ?? []), edge]);
+  });
+  return result;
+};
+
+const collectNodeIds = (
+  startNodeIds: Iterable<string>,
+  getNext: (nodeId: string) => string[]
+) => {
+  const result = new Set<string>();
+  const queue = [...startNodeIds];
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    if (result.has(nodeId)) continue;
+    result.add(nodeId);
+    queue.push(...getNext(nodeId));
+  }
+  return result;
+};
+
+/**
+ * Runs the graph in topological order with each node type's execute
+ * handler, independent branches concurrently. A failed node skips the
+ * nodes downstream of it, other branches keep running.
+ */
+export const executeGraph = (
+  graph: Graph,
+  nodeTypeConfigMap: Map<string, NodeTypeConfig>,
+  options: ExecutionOptions = {}
+): Promise<ExecutionResult> => {
+  const {
+    concurrency = DEFAULT_EXECUTION_CONCURRENCY,
+    signal,
+    cache,
+    onNodeStatus,
+    onNodeProgress,
+  } = options;
+  // Below one no node would ever start and the run would never settle
+  const maxRunning = Number.isFinite(concurrency)
+    ? Math.max(1, Math.floor(concurrency))
+    : DEFAULT_EXECUTION_CONCURRENCY;
+
+  const nodeMap = new Map(graph.nodes.map((node) => [node.id, node]));
+  const edges = graph.edges.filter(
+    (edge) => nodeMap.has(edge.sourceNodeId) && nodeMap.has(edge.targetNodeId)
+  );
+  const incomingEdges = groupEdges(edges, "targetNodeId");
+  const outgoingEdges = groupEdges(edges, "sourceNodeId");
+  const getIncoming = (nodeId: string) => incomingEdges.get(nodeId) ?? [];
+  const getOutgoing = (nodeId: string) => outgoingEdges.get(nodeId) ?? [];
+
+  const scope = options.nodeIds
+    ? collectNodeIds(
+        collectNodeIds(
+          options.nodeIds.filter((nodeId) => nodeMap.has(nodeId)),
+          (nodeId) => getOutgoing(nodeId).map((edge) => edge.targetNodeId)
+        ),
+        (nodeId) => getIncoming(nodeId).map((edge) => edge.sourceNodeId)
+      )
+    : new Set(nodeMap.keys());
+
+  // Inputs still waiting for their node to finish, ready at zero
+  const waitingInputs = new Map(
+    [...scope].map((nodeId) => [nodeId, getIncoming(nodeId).length])
+  );
+  const ready = [...scope].filter((nodeId) => waitingInputs.get(nodeId) === 0);
+  const runningNodeIds = new Set<string>();
+  const outputs = new Map<string, NodeOutputs>();
+  const errors = new Map<string, unknown>();
+  const cacheKeys = new Map<string, string>();
+
+  // Aborted on cancel even when no options.signal is given
+  const controller = new AbortController();
+
+  return new Promise((resolve) => {
+    let finished = false;
+
+    const finish = (status: ExecutionResult["status"]) => {
+      finished = true;
+      signal?.removeEventListener("abort", handleAbort);
+      resolve({ status, outputs, errors });
+    };
+
+    // Resolves right away, handlers that ignore the signal are left behind
+    const handleAbort = () => {
+      if (finished) return;
+      controller.abort(signal?.reason);
+      runningNodeIds.forEach((nodeId) => onNodeStatus?.(nodeId, "cancelled"));
+      finish("cancelled");
+    };
+
+    const runNode = async (node: Node) => {
+      const nodeTypeConfig = nodeTypeConfigMap.get(node.type);
+      const incoming = getIncoming(node.id);
+      const cacheKey = getCacheKey(node, incoming, cacheKeys);
+      cacheKeys.set(node.id, cacheKey);
+
+      const cached = cache?.get(cacheKey);
+      if (cached) {
+        outputs.set(node.id, cached);
+        onNodeStatus?.(node.id, "cached");
+        return;
+      }
+
+      if (!nodeTypeConfig?.execute) {
+        throw new Error(`Node type "${node.type}" has no execute handler`);
+      }
+
+      onNodeStatus?.(node.id, "running");
+      const result = await nodeTypeConfig.execute(
+        collectInputs(node, incoming, outputs, nodeTypeConfig),
+        node.payload,
+        {
+          node,
+          signal: controller.signal,
+          reportProgress: (progress, message) => {
+            if (!finished) onNodeProgress?.(node.id, progress, message);
+          },
+        }
+      );
+      if (finished) return;
+
+      cache?.set(cacheKey, result);
+      outputs.set(node.id, result);
+      onNodeStatus?.(node.id, "completed");
+    };
+
+    const schedule = () => {
+      if (finished) return;
+
+      while (runningNodeIds.size < maxRunning && ready.length > 0) {
+        const nodeId = ready.shift()!;
+        runningNodeIds.add(nodeId);
+
+        runNode(nodeMap.get(nodeId)!)
+          .then(
+            () => {
+              if (finished) return;
+              getOutgoing(nodeId).forEach((edge) => {
+                const waiting = waitingInputs.get(edge.targetNodeId)! - 1;
+                waitingInputs.set(edge.targetNodeId, waiting);
+                if (waiting === 0) {
+                  ready.push(edge.targetNodeId);
+                }
+              });
+            },
+            (error) => {
+              if (finished) return;
+              errors.set(nodeId, error);
+              onNodeStatus?.(nodeId, "failed", error);
+            }
+          )
+          .finally(() => {
+            runningNodeIds.delete(nodeId);
+            schedule();
+          });
+      }
+
+      if (runningNodeIds.size === 0 && ready.length === 0) {
+        // Downstream of a failure, or part of a cycle
+        scope.forEach((nodeId) => {
+          if (!outputs.has(nodeId) && !errors.has(nodeId)) {
+            onNodeStatus?.(nodeId, "skipped");
+          }
+        });
+        finish(errors.size > 0 ? "failed" : "completed");
+      }
+    };
+
+    if (signal?.aborted) {
+      finish("cancelled");
+      return;
+    }
+    signal?.addEventListener("abort", handleAbort);
+    scope.forEach((nodeId) => onNodeStatus?.(nodeId, "queued"));
+    schedule();
+  });
+};
@@ -1,4 +1,123 @@
-import type { Graph, Node, Edge, NodeTypeConfig } from "../types/graph";
+import type {
+  Graph,
+  Node,
+  Edge,
+  NodeTypeConfig,
+  Port,
+  PortCompatibility,
+  PortConfig,
+  Position,
+  Rect,
+  Size,
+  ConnectionValidation,
+} from "../types/graph";
+
+export const DEFAULT_NODE_WIDTH = 200;
+export const DEFAULT_NODE_HEIGHT = 80;
+export const DEFAULT_MIN_NODE_SIZE: Size = { width: 100, height: 40 };
+
+export const DEFAULT_INPUT_PORT_ID = "input";
+export const DEFAULT_OUTPUT_PORT_ID = "output";
+
+// Ports with this data type connect to anything
+export const ANY_DATA_TYPE = "any";
+
+// Layout of the labelled port rows rendered for node types with named ports
+export const NODE_HEADER_HEIGHT = 36;
+export const PORT_LIST_PADDING = 8;
+export const PORT_ROW_HEIGHT = 24;
+
+export const hasNamedPorts = (nodeTypeConfig?: NodeTypeConfig): boolean =>
+  !!(nodeTypeConfig?.inputs || nodeTypeConfig?.outputs);
+
+export const getNodeTypePorts = (
+  nodeTypeConfig?: NodeTypeConfig
+): { inputs: PortConfig[]; outputs: PortConfig[] } => ({
+  inputs: nodeTypeConfig?.inputs ?? [{ id: DEFAULT_INPUT_PORT_ID }],
+  outputs: nodeTypeConfig?.outputs ?? [{ id: DEFAULT_OUTPUT_PORT_ID }],
+});
+
+export const getEdgeSourcePortId = (edge: Edge): string =>
+  edge.sourcePortId ?? DEFAULT_OUTPUT_PORT_ID;
+
+export const getEdgeTargetPortId = (edge: Edge): string =>
+  edge.targetPortId ?? DEFAULT_INPUT_PORT_ID;
+
+export type NodeSizeGetter = (node: Node) => Size;
+
+/** Rendered size when measured, else the resized size, else the type default */
+export const getNodeSize = (
+  node: Node,
+  measuredSize?: Size,
+  nodeTypeConfig?: NodeTypeConfig
+): Size =>
+  measuredSize ??
+  node.size ??
+  nodeTypeConfig?.defaultSize ?? {
+    width: DEFAULT_NODE_WIDTH,
+    height: DEFAULT_NODE_HEIGHT,
+  };
+
+export const createNodeSizeGetter =
+  (
+    measuredSizes?: Map<string, Size>,
+    nodeTypeConfigMap?: Map<string, NodeTypeConfig>
+  ): NodeSizeGetter =>
+  (node) =>
+    getNodeSize(
+      node,
+      measuredSizes?.get(node.id),
+      nodeTypeConfigMap?.get(node.type)
+    );
+
+const getStoredNodeSize: NodeSizeGetter = (node) => getNodeSize(node);
+
+// Keeps a resized node within the limits of its type
+export const clampNodeSize = (
+  size: Size,
+  nodeTypeConfig?: NodeTypeConfig
+): Size => {
+  const min = nodeTypeConfig?.minSize ?? DEFAULT_MIN_NODE_SIZE;
+  const max = nodeTypeConfig?.maxSize;
+  return {
+    width: Math.min(max?.width ?? Infinity, Math.max(min.width, size.width)),
+    height: Math.min(
+      max?.height ?? Infinity,
+      Math.max(min.height, size.height)
+    ),
+  };
+};
+
+export const getPortOffsetY = (index: number): number =>
+  NODE_HEADER_HEIGHT +
+  PORT_LIST_PADDING +
+  index * PORT_ROW_HEIGHT +
+  PORT_ROW_HEIGHT / 2;
+
+// Anchor point of a port in world coordinates
+export const getPortPosition = (
+  node: Node,
+  portType: Port["type"],
+  portId: string | undefined,
+  nodeTypeConfig?: NodeTypeConfig,
+  size: Size = getNodeSize(node, undefined, nodeTypeConfig)
+): Position => {
+  const x =
+    portType === "input" ? node.position.x : node.position.x + size.width;
+
+  if (!hasNamedPorts(nodeTypeConfig)) {
+    return { x, y: node.position.y + size.height / 2 };
+  }
+
+  const { inputs, outputs } = getNodeTypePorts(nodeTypeConfig);
+  const ports = portType === "input" ? inputs : outputs;
+  const index = Math.max(
+    0,
+    ports.findIndex((port) => port.id === portId)
+  );
+
+  return { x, y: node.position.y + getPortOffsetY(index) };
+};
 
 export const generateId = (): string => {
   return Math.random().toString(36).slice(2, 9);
@@ -7,59 +126,168 @@ export const generateId = (): string => {
 export const createNode = (
   type: Node["type"],
   position: { x: number; y: number },
-  allowMultipleInputs: boolean
+  allowMultipleInputs: boolean,
+  payload: Record<string, unknown> = {}
 ): Node => {
   return {
     id: generateId(),
     type,
     title: `${type} Node`,
     position,
-    payload: {},
+    payload,
     allowMultipleInputs,
   };
 };
 
 export const createEdge = (
   sourceNodeId: string,
-  targetNodeId: string
+  targetNodeId: string,
+  sourcePortId: string = DEFAULT_OUTPUT_PORT_ID,
+  targetPortId: string = DEFAULT_INPUT_PORT_ID
 ): Edge => {
   return {
     id: generateId(),
     sourceNodeId,
     targetNodeId,
+    sourcePortId,
+    targetPortId,
   };
 };
 
+export const isPortTypeCompatible = (
+  sourceDataType: string | undefined,
+  targetDataType: string | undefined,
+  compatibility?: PortCompatibility
+): boolean => {
+  if (
+    !sourceDataType ||
+    !targetDataType ||
+    sourceDataType === ANY_DATA_TYPE ||
+    targetDataType === ANY_DATA_TYPE ||
+    sourceDataType === targetDataType
+  ) {
+    return true;
+  }
+
+  if (typeof compatibility === "function") {
+    return compatibility(sourceDataType, targetDataType);
+  }
+
+  return compatibility?.[sourceDataType]?.includes(targetDataType) ?? false;
+};
+
+export interface ConnectionOptions {
+  sourcePortId?: string;
+  targetPortId?: string;
+  /** Enables port existence, per-port input and data type checks */
+  nodeTypeConfigMap?: Map<string, NodeTypeConfig>;
+  portCompatibility?: PortCompatibility;
+}
+
 export const validateConnection = (
   sourceNodeId: string,
   targetNodeId: string,
-  graph: Graph
-): { valid: boolean; reason?: string } => {
+  graph: Graph,
+  options: ConnectionOptions = {}
+): ConnectionValidation => {
+  const sourcePortId = options.sourcePortId ?? DEFAULT_OUTPUT_PORT_ID;
+  const targetPortId = options.targetPortId ?? DEFAULT_INPUT_PORT_ID;
+
   if (sourceNodeId === targetNodeId) {
-    return { valid: false, reason: "Cannot connect node to itself" };
+    return {
+      valid: false,
+      code: "self-connection",
+      reason: "Cannot connect node to itself",
+    };
   }
 
   const existingEdge = graph.edges.find(
     (edge) =>
-      edge.sourceNodeId === sourceNodeId && edge.targetNodeId === targetNodeId
+      edge.sourceNodeId === sourceNodeId &&
+      edge.targetNodeId === targetNodeId &&
+      getEdgeSourcePortId(edge) === sourcePortId &&
+      getEdgeTargetPortId(edge) === targetPortId
   );
   if (existingEdge) {
-    return { valid: false, reason: "Connection already exists" };
+    return {
+      valid: false,
+      code: "duplicate-connection",
+      reason: "Connection already exists",
+    };
+  }
+
+  const sourceNode = graph.nodes.find((node) => node.id === sourceNodeId);
+  if (!sourceNode) {
+    return {
+      valid: false,
+      code: "node-not-found",
+      reason: "Source node not found",
+    };
   }
 
   const targetNode = graph.nodes.find((node) => node.id === targetNodeId);
   if (!targetNode) {
-    return { valid: false, reason: "Target node not found" };
+    return {
+      valid: false,
+      code: "node-not-found",
+      reason: "Target node not found",
+    };
+  }
+
+  const sourceTypeConfig = options.nodeTypeConfigMap?.get(sourceNode.type);
+  const sourcePort = getNodeTypePorts(sourceTypeConfig).outputs.find(
+    (port) => port.id === sourcePortId
+  );
+  if (sourceTypeConfig && !sourcePort) {
+    return {
+      valid: false,
+      code: "port-not-found",
+      reason: `Output port "${sourcePortId}" not found`,
+    };
+  }
+
+  const targetTypeConfig = options.nodeTypeConfigMap?.get(targetNode.type);
+  const targetPort = getNodeTypePorts(targetTypeConfig).inputs.find(
+    (port) => port.id === targetPortId
+  );
+  if (targetTypeConfig && !targetPort) {
+    return {
+      valid: false,
+      code: "port-not-found",
+      reason: `Input port "${targetPortId}" not found`,
+    };
+  }
+
+  if (
+    !isPortTypeCompatible(
+      sourcePort?.dataType,
+      targetPort?.dataType,
+      options.portCompatibility
+    )
+  ) {
+    return {
+      valid: false,
+      code: "incompatible-types",
+      reason: `Cannot connect "${sourcePort?.dataType}" output to "${targetPort?.dataType}" input`,
+      sourceDataType: sourcePort?.dataType,
+      targetDataType: targetPort?.dataType,
+    };
   }
 
-  if (!targetNode.allowMultipleInputs) {
+  // The single-input rule applies per input port
+  if (!(targetPort?.allowMultiple ?? targetNode.allowMultipleInputs)) {
     const existingInputEdge = graph.edges.find(
-      (edge) => edge.targetNodeId === targetNodeId
+      (edge) =>
+        edge.targetNodeId === targetNodeId &&
+        getEdgeTargetPortId(edge) === targetPortId
     );
     if (existingInputEdge) {
       return {
         valid: false,
-        reason: "This node can only have one input connection",
+        code: "input-limit",
+        reason: hasNamedPorts(targetTypeConfig)
+          ? `Input port "${targetPortId}" can only have one connection`
+          : "This node can only have one input connection",
       };
     }
   }
@@ -88,22 +316,16 @@ export const validateConnection = (
   };
 
   if (wouldCreateCycle(targetNodeId, sourceNodeId, new Set())) {
-    return { valid: false, reason: "Connection would create a cycle" };
+    return {
+      valid: false,
+      code: "cycle",
+      reason: "Connection would create a cycle",
+    };
   }
 
   return { valid: true };
 };
 
-export const removeNode = (nodeId: string, graph: Graph): Graph => {
-  return {
-    ...graph,
-    nodes: graph.nodes.filter((node) => node.id !== nodeId),
-    edges: graph.edges.filter(
-      (edge) => edge.sourceNodeId !== nodeId && edge.targetNodeId !== nodeId
-    ),
-  };
-};
-
 export const removeEdge = (edgeId: string, graph: Graph): Graph => {
   return {
     ...graph,
@@ -124,33 +346,93 @@ export const updateNodePosition = (
   };
 };
 
-export const validateGraphWithNodeTypes = (
-  graph: Graph,
-  nodeTypes: NodeTypeConfig[]
-): { valid: boolean; errors: string[] } => {
-  const errors: string[] = [];
-  const nodeTypeMap = new Map<string, NodeTypeConfig>();
-  
-  nodeTypes.forEach((nodeType) => {
-    nodeTypeMap.set(nodeType.id, nodeType);
+export const removeNodes = (nodeIds: string[], graph: Graph): Graph => {
+  const nodeIdSet = new Set(nodeIds);
+  return {
+    ...graph,
+    nodes: graph.nodes.filter((node) => !nodeIdSet.has(node.id)),
+    edges: graph.edges.filter(
+      (edge) =>
+        !nodeIdSet.has(edge.sourceNodeId) && !nodeIdSet.has(edge.targetNodeId)
+    ),
+  };
+};
+
+/**
+ * Clones nodes with fresh ids, keeping only the edges whose both ends are
+ * part of the cloned set. Edge endpoints are remapped to the new node ids.
+ */
+export const cloneSubgraph = (
+  nodes: Node[],
+  edges: Edge[],
+  offset: Position
+): { nodes: Node[]; edges: Edge[] } => {
+  const idMap = new Map<string, string>();
+
+  const clonedNodes = nodes.map((node) => {
+    const id = generateId();
+    idMap.set(node.id, id);
+    return {
+      ...node,
+      id,
+      position: {
+        x: node.position.x + offset.x,
+        y: node.position.y + offset.y,
+      },
+      payload: { ...node.payload },
+    };
   });
 
-  graph.nodes.forEach((node) => {
-    const nodeTypeConfig = nodeTypeMap.get(node.type);
-    
-    if (!nodeTypeConfig) {
-      errors.push(`Node "${node.id}" has invalid type "${node.type}". Available types: ${nodeTypes.map(nt => nt.id).join(', ')}`);
-      return;
-    }
-    
-    const expectedAllowMultipleInputs = nodeTypeConfig.allowMultipleInputs ?? false;
-    if (node.allowMultipleInputs !== expectedAllowMultipleInputs) {
-      errors.push(`Node "${node.id}" (type: ${node.type}) has allowMultipleInputs=${node.allowMultipleInputs}, but should be ${expectedAllowMultipleInputs} according to its node type configuration`);
-    }
+  const clonedEdges = edges
+    .filter(
+      (edge) => idMap.has(edge.sourceNodeId) && idMap.has(edge.targetNodeId)
+    )
+    .map((edge) => ({
+      ...edge,
+      id: generateId(),
+      sourceNodeId: idMap.get(edge.sourceNodeId)!,
+      targetNodeId: idMap.get(edge.targetNodeId)!,
+    }));
+
+  return { nodes: clonedNodes, edges: clonedEdges };
+};
+
+export const getNodeRect = (
+  node: Node,
+  getSize: NodeSizeGetter = getStoredNodeSize
+): Rect => ({
+  ...node.position,
+  ...getSize(node),
+});
+
+export const getNodesInRect = (
+  nodes: Node[],
+  rect: Rect,
+  getSize: NodeSizeGetter = getStoredNodeSize
+): Node[] => {
+  return nodes.filter((node) => {
+    const nodeRect = getNodeRect(node, getSize);
+    return (
+      nodeRect.x < rect.x + rect.width &&
+      nodeRect.x + nodeRect.width > rect.x &&
+      nodeRect.y < rect.y + rect.height &&
+      nodeRect.y + nodeRect.height > rect.y
+    );
   });
+};
 
-  return {
-    valid: errors.length === 0,
-    errors,
-  };
+// Bounding box of the nodes, or null when there are none
+export const getNodesBounds = (
+  nodes: Node[],
+  getSize: NodeSizeGetter = getStoredNodeSize
+): Rect | null => {
+  if (nodes.length === 0) return null;
+
+  const rects = nodes.map((node) => getNodeRect(node, getSize));
+  const minX = Math.min(...rects.map((rect) => rect.x));
+  const minY = Math.min(...rects.map((rect) => rect.y));
+  const maxX = Math.max(...rects.map((rect) => rect.x + rect.width));
+  const maxY = Math.max(...rects.map((rect) => rect.y + rect.height));
+
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
 };
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  COLLAPSED_GROUP_SIZE,
+  GROUP_HEADER_HEIGHT,
+  GROUP_PADDING,
+  addGroup,
+  getCollapsedGroupRect,
+  getCollapsedGroupsByNodeId,
+  getGroupRect,
+  getVisibleNodes,
+  removeGroupMembers,
+} from "./groups";
+import type { Group } from "../types/graph";
+import { createTestNode } from "../test/fixtures";
+
+const createTestGroup = (id: string, nodeIds: string[]): Group => ({
+  id,
+  title: id,
+  nodeIds,
+});
+
+const getSize = () => ({ width: 100, height: 50 });
+
+describe("group membership", () => {
+  it("moves nodes out of their previous group", () => {
+    const groups = addGroup(
+      [createTestGroup("g1", ["a", "b"]), createTestGroup("g2", ["c"])],
+      createTestGroup("g3", ["b", "c"])
+    );
+
+    expect(groups).toEqual([
+      createTestGroup("g1", ["a"]),
+      createTestGroup("g3", ["b", "c"]),
+    ]);
+  });
+
+  it("removes members and drops empty groups", () => {
+    const groups = removeGroupMembers(
+      [createTestGroup("g1", ["a", "b"]), createTestGroup("g2", ["c"])],
+      (nodeId) => nodeId !== "a"
+    );
+
+    expect(groups).toEqual([createTestGroup("g1", ["a"])]);
+  });
+
+  it("hides the nodes of collapsed groups", () => {
+    const collapsed = { ...createTestGroup("g1", ["a"]), collapsed: true };
+    const groups = [collapsed, createTestGroup("g2", ["b"])];
+    const nodes = [createTestNode("a"), createTestNode("b")];
+
+    expect(getCollapsedGroupsByNodeId(groups)).toEqual(
+      new Map([["a", collapsed]])
+    );
+    expect(getVisibleNodes(nodes, groups)).toEqual([nodes[1]]);
+    expect(getVisibleNodes(nodes)).toBe(nodes);
+  });
+});
+
+describe("group bounds", () => {
+  const nodes = [
+    createTestNode("a"),
+    createTestNode("b", { position: { x: 200, y: 100 } }),
+    createTestNode("c", { position: { x: 900, y: 900 } }),
+  ];
+
+  it("frames the group's nodes with padding and a header", () => {
+    expect(
+      getGroupRect(createTestGroup("g", ["a", "b"]), nodes, getSize)
+    ).toEqual({
+      x: -GROUP_PADDING,
+      y: -GROUP_PADDING - GROUP_HEADER_HEIGHT,
+      width: 300 + GROUP_PADDING * 2,
+      height: 150 + GROUP_PADDING * 2 + GROUP_HEADER_HEIGHT,
+    });
+  });
+
+  it("puts the collapsed proxy at the frame's top-left corner", () => {
+    expect(
+      getCollapsedGroupRect(createTestGroup("g", ["b"]), nodes, getSize)
+    ).toEqual({
+      x: 200 - GROUP_PADDING,
+      y: 100 - GROUP_PADDING - GROUP_HEADER_HEIGHT,
+      ...COLLAPSED_GROUP_SIZE,
+    });
+  });
+
+  it("has no bounds without existing nodes", () => {
+    expect(
+      getGroupRect(createTestGroup("g", ["x"]), nodes, getSize)
+    ).toBeNull();
+    expect(
+      getCollapsedGroupRect(createTestGroup("g", []), nodes, getSize)
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+import type { Group, Node, Position, Rect, Size } from "../types/graph";
+import { generateId, getNodesBounds, type NodeSizeGetter } from "./graph";
+
+// Space between the frame and its nodes, the header sits above them
+export const GROUP_PADDING = 24;
+export const GROUP_HEADER_HEIGHT = 32;
+export const COLLAPSED_GROUP_SIZE: Size = { width: 200, height: 64 };
+
+export const createGroup = (
+  nodeIds: string[],
+  options?: { title?: string; color?: string }
+): Group => ({
+  id: generateId(),
+  title: options?.title ?? "Group",
+  color: options?.color,
+  nodeIds,
+});
+
+const getGroupNodes = (group: Group, nodes: Node[]) => {
+  const nodeIds = new Set(group.nodeIds);
+  return nodes.filter((node) => nodeIds.has(node.id));
+};
+
+/** Frame around the group's nodes, or null when none of them exist */
+export const getGroupRect = (
+  group: Group,
+  nodes: Node[],
+  getSize?: NodeSizeGetter
+): Rect | null => {
+  const bounds = getNodesBounds(getGroupNodes(group, nodes), getSize);
+  if (!bounds) return null;
+
+  return {
+    x: bounds.x - GROUP_PADDING,
+    y: bounds.y - GROUP_PADDING - GROUP_HEADER_HEIGHT,
+    width: bounds.width + GROUP_PADDING * 2,
+    height: bounds.height + GROUP_PADDING * 2 + GROUP_HEADER_HEIGHT,
+  };
+};
+
+/** Proxy node of a collapsed group, at the top-left corner of its frame */
+export const getCollapsedGroupRect = (
+  group: Group,
+  nodes: Node[],
+  getSize?: NodeSizeGetter
+): Rect | null => {
+  const rect = getGroupRect(group, nodes, getSize);
+  return rect && { x: rect.x, y: rect.y, ...COLLAPSED_GROUP_SIZE };
+};
+
+/** Collapsed group of each node hidden inside one */
+export const getCollapsedGroupsByNodeId = (groups: Group[] = []) => {
+  const result = new Map<string, Group>();
+  groups.forEach((group) => {
+    if (group.collapsed) {
+      group.nodeIds.forEach((nodeId) => result.set(nodeId, group));
+    }
+  });
+  return result;
+};
+
+/** Nodes outside collapsed groups, the others are shown by their group */
+export const getVisibleNodes = (nodes: Node[], groups?: Group[]): Node[] => {
+  const hiddenNodes = getCollapsedGroupsByNodeId(groups);
+  return hiddenNodes.size > 0
+    ? nodes.filter((node) => !hiddenNodes.has(node.id))
+    : nodes;
+};
+
+/**
+ * Adds a group of the given nodes. A node belongs to one group at most, so
+ * it leaves its previous group, and groups left empty are removed.
+ */
+export const addGroup = (groups: Group[] = [], group: Group): Group[] => {
+  const nodeIds = new Set(group.nodeIds);
+  return [
+    ...removeGroupMembers(groups, (nodeId) => nodeIds.has(nodeId)),
+    group,
+  ];
+};
+
+export const removeGroupMembers = (
+  groups: Group[],
+  isRemoved: (nodeId: string) => boolean
+): Group[] =>
+  groups
+    .map((group) =>
+      group.nodeIds.some(isRemoved)
+        ? {
+            ...group,
+            nodeIds: group.nodeIds.filter((nodeId) => !isRemoved(nodeId)),
+          }
+        : group
+    )
+    .filter((group) => group.nodeIds.length > 0);
+
+/** Positions of the group's nodes moved by the given distance */
+export const getGroupMovePositions = (
+  group: Group,
+  nodes: Node[],
+  delta: Position
+): Record<string, Position> => {
+  const positions: Record<string, Position> = {};
+  getGroupNodes(group, nodes).forEach((node) => {
+    positions[node.id] = {
+      x: node.position.x + delta.x,
+      y: node.position.y + delta.y,
+    };
+  });
+  return positions;
+};
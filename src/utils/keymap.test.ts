@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_KEYMAP, getKeyAction, matchesKeyBinding } from "./keymap";
+
+const key = (
+  key: string,
+  modifiers: Partial<
+    Pick<KeyboardEvent, "ctrlKey" | "metaKey" | "shiftKey" | "altKey">
+  > = {}
+) => ({
+  key,
+  ctrlKey: false,
+  metaKey: false,
+  shiftKey: false,
+  altKey: false,
+  ...modifiers,
+});
+
+describe("matchesKeyBinding", () => {
+  it("matches Mod with either Ctrl or Meta", () => {
+    expect(matchesKeyBinding(key("d", { ctrlKey: true }), "Mod+D")).toBe(true);
+    expect(matchesKeyBinding(key("d", { metaKey: true }), "Mod+D")).toBe(true);
+    expect(matchesKeyBinding(key("d"), "Mod+D")).toBe(false);
+  });
+
+  it("requires exactly the given modifiers", () => {
+    expect(matchesKeyBinding(key("y", { ctrlKey: true }), "Ctrl+Y")).toBe(true);
+    expect(matchesKeyBinding(key("y", { metaKey: true }), "Ctrl+Y")).toBe(
+      false
+    );
+    expect(
+      matchesKeyBinding(key("z", { ctrlKey: true, shiftKey: true }), "Mod+Z")
+    ).toBe(false);
+    expect(matchesKeyBinding(key("z", { altKey: true }), "Z")).toBe(false);
+  });
+
+  it("matches the + key and ignores Shift for symbols", () => {
+    expect(matchesKeyBinding(key("+", { shiftKey: true }), "+")).toBe(true);
+    expect(matchesKeyBinding(key("+", { ctrlKey: true }), "Mod++")).toBe(true);
+    expect(matchesKeyBinding(key("+"), "Mod++")).toBe(false);
+  });
+});
+
+describe("getKeyAction", () => {
+  it("finds the action of the pressed key", () => {
+    expect(getKeyAction(key("Z", { metaKey: true }), DEFAULT_KEYMAP)).toBe(
+      "undo"
+    );
+    expect(
+      getKeyAction(key("Z", { metaKey: true, shiftKey: true }), DEFAULT_KEYMAP)
+    ).toBe("redo");
+    expect(getKeyAction(key("Backspace"), DEFAULT_KEYMAP)).toBe("delete");
+    expect(getKeyAction(key("q"), DEFAULT_KEYMAP)).toBeNull();
+  });
+
+  it("skips disabled actions", () => {
+    expect(
+      getKeyAction(key("Backspace"), { ...DEFAULT_KEYMAP, delete: null })
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+export type KeyAction =
+  | "cancel"
+  | "delete"
+  | "duplicate"
+  | "selectAll"
+  | "undo"
+  | "redo"
+  | "nudgeUp"
+  | "nudgeDown"
+  | "nudgeLeft"
+  | "nudgeRight"
+  | "nudgeUpLarge"
+  | "nudgeDownLarge"
+  | "nudgeLeftLarge"
+  | "nudgeRightLarge"
+  | "zoomIn"
+  | "zoomOut"
+  | "resetZoom";
+
+/**
+ * A key with optional modifiers, e.g. "Delete", "Shift+ArrowUp" or "Mod+D".
+ * "Mod" is Ctrl or Cmd, so the same binding works on every platform.
+ */
+export type KeyBinding = string;
+
+/** Bindings per action, null disables the action */
+export type Keymap = Record<KeyAction, KeyBinding | KeyBinding[] | null>;
+
+export const DEFAULT_KEYMAP: Keymap = {
+  cancel: "Escape",
+  delete: ["Delete", "Backspace"],
+  duplicate: "Mod+D",
+  selectAll: "Mod+A",
+  undo: "Mod+Z",
+  redo: ["Mod+Shift+Z", "Ctrl+Y"],
+  nudgeUp: "ArrowUp",
+  nudgeDown: "ArrowDown",
+  nudgeLeft: "ArrowLeft",
+  nudgeRight: "ArrowRight",
+  nudgeUpLarge: "Shift+ArrowUp",
+  nudgeDownLarge: "Shift+ArrowDown",
+  nudgeLeftLarge: "Shift+ArrowLeft",
+  nudgeRightLarge: "Shift+ArrowRight",
+  zoomIn: ["+", "="],
+  zoomOut: "-",
+  resetZoom: "0",
+};
+
+type KeyEventLike = Pick<
+  KeyboardEvent,
+  "key" | "ctrlKey" | "metaKey" | "shiftKey" | "altKey"
+>;
+
+export const matchesKeyBinding = (e: KeyEventLike, binding: KeyBinding) => {
+  // The "+" key is written as "+" or, with modifiers, "Mod++"
+  const parts = binding.endsWith("++")
+    ? [...binding.slice(0, -2).split("+"), "+"]
+    : binding === "+"
+    ? ["+"]
+    : binding.split("+");
+  const key = parts[parts.length - 1];
+  const modifiers = new Set(parts.slice(0, -1).map((m) => m.toLowerCase()));
+
+  const mod = modifiers.has("mod");
+  const ctrl = modifiers.has("ctrl");
+  const meta = modifiers.has("meta") || modifiers.has("cmd");
+  if (mod ? !(e.ctrlKey || e.metaKey) : e.ctrlKey !== ctrl) return false;
+  if (!mod && e.metaKey !== meta) return false;
+  if (e.altKey !== modifiers.has("alt")) return false;
+
+  // Symbols like "+" need Shift on many layouts, so Shift is ignored for them
+  const isSymbol = key.length === 1 && !/[a-z0-9]/i.test(key);
+  if (!isSymbol && e.shiftKey !== modifiers.has("shift")) return false;
+
+  return e.key.toLowerCase() === key.toLowerCase();
+};
+
+/** Action bound to the pressed key, if any */
+export const getKeyAction = (
+  e: KeyEventLike,
+  keymap: Keymap
+): KeyAction | null => {
+  const actions = Object.keys(keymap) as KeyAction[];
+  return (
+    actions.find((action) => {
+      const bindings = keymap[action];
+      if (!bindings) return false;
+      const list = Array.isArray(bindings) ? bindings : [bindings];
+      return list.some((binding) => matchesKeyBinding(e, binding));
+    }) ?? null
+  );
+};
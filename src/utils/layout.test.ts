@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import { computeLayout, layoutGraph } from "./layout";
+import { DEFAULT_NODE_HEIGHT } from "./graph";
+import {
+  createTestEdge,
+  createTestGraph,
+  createTestNode,
+} from "../test/fixtures";
+
+const nodes = (...ids: string[]) => ids.map((id) => createTestNode(id));
+
+describe("computeLayout", () => {
+  it("places a chain along the layout direction", () => {
+    const edges = [createTestEdge("a", "b"), createTestEdge("b", "c")];
+
+    const lr = computeLayout(nodes("a", "b", "c"), edges, { mode: "tree" });
+    expect(lr.a.x).toBeLessThan(lr.b.x);
+    expect(lr.b.x).toBeLessThan(lr.c.x);
+    expect(new Set([lr.a.y, lr.b.y, lr.c.y]).size).toBe(1);
+
+    const tb = computeLayout(nodes("a", "b", "c"), edges, {
+      mode: "tree",
+      direction: "TB",
+    });
+    expect(tb.a.y).toBeLessThan(tb.b.y);
+    expect(tb.b.y).toBeLessThan(tb.c.y);
+    expect(new Set([tb.a.x, tb.b.x, tb.c.x]).size).toBe(1);
+  });
+
+  it("centers a tree parent on its children", () => {
+    const positions = computeLayout(
+      nodes("a", "b", "c"),
+      [createTestEdge("a", "b"), createTestEdge("a", "c")],
+      { mode: "tree", nodeSpacing: 40 }
+    );
+
+    expect(positions.b.x).toBe(positions.c.x);
+    expect(Math.abs(positions.c.y - positions.b.y)).toBe(
+      DEFAULT_NODE_HEIGHT + 40
+    );
+    expect(positions.a.y).toBe((positions.b.y + positions.c.y) / 2);
+  });
+
+  it.each(["layered", "tree"] as const)(
+    "keeps the trees of a %s forest apart",
+    (mode) => {
+      const positions = computeLayout(
+        nodes("a", "b", "c", "d"),
+        [createTestEdge("a", "b"), createTestEdge("c", "d")],
+        { mode }
+      );
+
+      expect(positions.a.x).toBe(positions.c.x);
+      expect(positions.b.x).toBe(positions.d.x);
+      expect(Math.abs(positions.a.y - positions.c.y)).toBeGreaterThanOrEqual(
+        DEFAULT_NODE_HEIGHT
+      );
+      expect(Math.abs(positions.b.y - positions.d.y)).toBeGreaterThanOrEqual(
+        DEFAULT_NODE_HEIGHT
+      );
+    }
+  );
+
+  it.each(["layered", "tree"] as const)(
+    "lays out a cycle in %s mode",
+    (mode) => {
+      const positions = computeLayout(
+        nodes("a", "b", "c"),
+        [
+          createTestEdge("a", "b"),
+          createTestEdge("b", "c"),
+          createTestEdge("c", "a"),
+        ],
+        { mode }
+      );
+
+      const xs = ["a", "b", "c"].map((id) => positions[id].x);
+      expect(xs.every(Number.isFinite)).toBe(true);
+      expect(new Set(xs).size).toBe(3);
+    }
+  );
+
+  it("puts every node after its sources in layered mode", () => {
+    const positions = computeLayout(
+      nodes("a", "b", "c", "d"),
+      [
+        createTestEdge("a", "b"),
+        createTestEdge("a", "c"),
+        createTestEdge("b", "d"),
+        createTestEdge("c", "d"),
+      ],
+      { mode: "layered", direction: "TB" }
+    );
+
+    expect(positions.b.y).toBe(positions.c.y);
+    expect(positions.a.y).toBeLessThan(positions.b.y);
+    expect(positions.d.y).toBeGreaterThan(positions.b.y);
+    expect(positions.b.x).not.toBe(positions.c.x);
+  });
+
+  it("reverses the ranks for RL", () => {
+    const positions = computeLayout(
+      nodes("a", "b"),
+      [createTestEdge("a", "b")],
+      {
+        direction: "RL",
+      }
+    );
+
+    expect(positions.a.x).toBeGreaterThan(positions.b.x);
+  });
+
+  it("keeps the top-left corner of the nodes", () => {
+    const positions = computeLayout(
+      [
+        createTestNode("a", { position: { x: 500, y: 200 } }),
+        createTestNode("b", { position: { x: 800, y: 900 } }),
+      ],
+      [createTestEdge("a", "b")]
+    );
+
+    expect(positions.a).toEqual({ x: 500, y: 200 });
+  });
+});
+
+describe("layoutGraph", () => {
+  it("only moves the given nodes", () => {
+    const graph = createTestGraph({
+      nodes: [
+        createTestNode("a"),
+        createTestNode("b"),
+        createTestNode("c", { position: { x: 50, y: 50 } }),
+      ],
+      edges: [createTestEdge("a", "b"), createTestEdge("b", "c")],
+    });
+
+    const result = layoutGraph(graph, {}, ["a", "b"]);
+
+    expect(result.nodes[1].position.x).toBeGreaterThan(0);
+    expect(result.nodes[2]).toBe(graph.nodes[2]);
+  });
+});
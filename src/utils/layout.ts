@@ -0,0 +1,526 @@
+import type { Edge, Graph, Node, Position } from "../types/graph";
+import { getNodeSize } from "./graph";
+
+export type LayoutDirection = "LR" | "RL" | "TB" | "BT";
+
+export interface LayoutOptions {
+  /** Direction ranks flow in (default: "LR", from outputs on the right to inputs on the left) */
+  direction?: LayoutDirection;
+  /** "auto" (default) uses the tidy tree when every node has at most one input */
+  mode?: "auto" | "layered" | "tree";
+  /** Gap between nodes of the same rank (default: 40) */
+  nodeSpacing?: number;
+  /** Gap between ranks (default: 120) */
+  rankSpacing?: number;
+  /** Size of each node (default: its resized size or 200×80) */
+  getNodeSize?: (node: Node) => { width: number; height: number };
+}
+
+const CROSSING_REDUCTION_SWEEPS = 8;
+const COORDINATE_SWEEPS = 4;
+
+const getDefaultNodeSize = (node: Node) => getNodeSize(node);
+
+// A node in layout space. "rank" runs along the layout direction, "order" across it
+interface LayoutNode {
+  id: string;
+  rankSize: number;
+  orderSize: number;
+  isDummy: boolean;
+}
+
+interface LayoutContext {
+  layoutNodes: Map<string, LayoutNode>;
+  nodeSpacing: number;
+  rankSpacing: number;
+}
+
+const getSeparation = (
+  context: LayoutContext,
+  a: LayoutNode,
+  b: LayoutNode
+) => {
+  const spacing =
+    a.isDummy || b.isDummy ? context.nodeSpacing / 2 : context.nodeSpacing;
+  return a.orderSize / 2 + spacing + b.orderSize / 2;
+};
+
+// Removes self loops and duplicate node pairs, keeping edges inside the node set
+const getLayoutEdges = (nodeIds: Set<string>, edges: Edge[]) => {
+  const seen = new Set<string>();
+  const result: Array<[string, string]> = [];
+
+  edges.forEach((edge) => {
+    const key = `${edge.sourceNodeId}->${edge.targetNodeId}`;
+    if (
+      edge.sourceNodeId === edge.targetNodeId ||
+      !nodeIds.has(edge.sourceNodeId) ||
+      !nodeIds.has(edge.targetNodeId) ||
+      seen.has(key)
+    ) {
+      return;
+    }
+    seen.add(key);
+    result.push([edge.sourceNodeId, edge.targetNodeId]);
+  });
+
+  return result;
+};
+
+// Reverses the edges that close a cycle so ranks can be assigned
+const breakCycles = (nodeIds: string[], edges: Array<[string, string]>) => {
+  const outgoing = new Map<string, Array<[string, string]>>();
+  edges.forEach((edge) => {
+    outgoing.set(edge[0], [...(outgoing.get(edge[0]) ?? []), edge]);
+  });
+
+  const state = new Map<string, "visiting" | "done">();
+  const reversed = new Set<[string, string]>();
+
+  const visit = (nodeId: string) => {
+    state.set(nodeId, "visiting");
+    (outgoing.get(nodeId) ?? []).forEach((edge) => {
+      const targetState = state.get(edge[1]);
+      if (targetState === "visiting") {
+        reversed.add(edge);
+      } else if (!targetState) {
+        visit(edge[1]);
+      }
+    });
+    state.set(nodeId, "done");
+  };
+
+  nodeIds.forEach((nodeId) => {
+    if (!state.has(nodeId)) visit(nodeId);
+  });
+
+  return edges.map((edge): [string, string] =>
+    reversed.has(edge) ? [edge[1], edge[0]] : edge
+  );
+};
+
+// Longest path ranking: every node sits one rank after its furthest predecessor
+const assignRanks = (nodeIds: string[], edges: Array<[string, string]>) => {
+  const ranks = new Map(nodeIds.map((id) => [id, 0]));
+  const inDegree = new Map(nodeIds.map((id) => [id, 0]));
+  const outgoing = new Map<string, string[]>();
+
+  edges.forEach(([source, target]) => {
+    inDegree.set(target, (inDegree.get(target) ?? 0) + 1);
+    outgoing.set(source, [...(outgoing.get(source) ?? []), target]);
+  });
+
+  const queue = nodeIds.filter((id) => inDegree.get(id) === 0);
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    (outgoing.get(nodeId) ?? []).forEach((target) => {
+      ranks.set(target, Math.max(ranks.get(target)!, ranks.get(nodeId)! + 1));
+      inDegree.set(target, inDegree.get(target)! - 1);
+      if (inDegree.get(target) === 0) queue.push(target);
+    });
+  }
+
+  return ranks;
+};
+
+const countCrossings = (
+  upper: string[],
+  lower: string[],
+  edges: Array<[string, string]>
+) => {
+  const upperIndex = new Map(upper.map((id, index) => [id, index]));
+  const lowerIndex = new Map(lower.map((id, index) => [id, index]));
+  const segments = edges
+    .filter(([a, b]) => upperIndex.has(a) && lowerIndex.has(b))
+    .map(([a, b]) => [upperIndex.get(a)!, lowerIndex.get(b)!]);
+
+  let crossings = 0;
+  for (let i = 0; i < segments.length; i++) {
+    for (let j = i + 1; j < segments.length; j++) {
+      if (
+        (segments[i][0] - segments[j][0]) * (segments[i][1] - segments[j][1]) <
+        0
+      ) {
+        crossings++;
+      }
+    }
+  }
+  return crossings;
+};
+
+const countAllCrossings = (
+  layers: string[][],
+  edges: Array<[string, string]>
+) =>
+  layers
+    .slice(1)
+    .reduce(
+      (sum, layer, index) => sum + countCrossings(layers[index], layer, edges),
+      0
+    );
+
+// Barycenter heuristic, sweeping down and up while keeping the best ordering
+const reduceCrossings = (
+  layers: string[][],
+  edges: Array<[string, string]>
+) => {
+  const predecessors = new Map<string, string[]>();
+  const successors = new Map<string, string[]>();
+  edges.forEach(([source, target]) => {
+    predecessors.set(target, [...(predecessors.get(target) ?? []), source]);
+    successors.set(source, [...(successors.get(source) ?? []), target]);
+  });
+
+  let best = layers.map((layer) => [...layer]);
+  let bestCrossings = countAllCrossings(best, edges);
+  const current = layers.map((layer) => [...layer]);
+
+  for (let sweep = 0; sweep < CROSSING_REDUCTION_SWEEPS; sweep++) {
+    const downward = sweep % 2 === 0;
+    const rankOrder = current.map((_, index) => index);
+    if (!downward) rankOrder.reverse();
+
+    rankOrder.slice(1).forEach((rank) => {
+      const reference = current[downward ? rank - 1 : rank + 1];
+      const referenceIndex = new Map(reference.map((id, index) => [id, index]));
+      const neighbors = downward ? predecessors : successors;
+
+      const barycenters = new Map(
+        current[rank].map((id, index) => {
+          const positions = (neighbors.get(id) ?? [])
+            .filter((neighbor) => referenceIndex.has(neighbor))
+            .map((neighbor) => referenceIndex.get(neighbor)!);
+          return [
+            id,
+            positions.length > 0
+              ? positions.reduce((sum, value) => sum + value, 0) /
+                positions.length
+              : index,
+          ];
+        })
+      );
+
+      current[rank].sort((a, b) => barycenters.get(a)! - barycenters.get(b)!);
+    });
+
+    const crossings = countAllCrossings(current, edges);
+    if (crossings < bestCrossings) {
+      best = current.map((layer) => [...layer]);
+      bestCrossings = crossings;
+    }
+  }
+
+  return best;
+};
+
+// Places a layer as close to the desired centers as the node order allows
+const placeLayer = (
+  context: LayoutContext,
+  layer: string[],
+  desired: number[]
+) => {
+  const nodes = layer.map((id) => context.layoutNodes.get(id)!);
+
+  const forward = [...desired];
+  for (let i = 1; i < forward.length; i++) {
+    forward[i] = Math.max(
+      forward[i],
+      forward[i - 1] + getSeparation(context, nodes[i - 1], nodes[i])
+    );
+  }
+
+  const backward = [...desired];
+  for (let i = backward.length - 2; i >= 0; i--) {
+    backward[i] = Math.min(
+      backward[i],
+      backward[i + 1] - getSeparation(context, nodes[i], nodes[i + 1])
+    );
+  }
+
+  // Both passes keep the minimum separation, and so does their average
+  return forward.map((value, index) => (value + backward[index]) / 2);
+};
+
+const assignOrderCoordinates = (
+  context: LayoutContext,
+  layers: string[][],
+  edges: Array<[string, string]>
+) => {
+  const centers = new Map<string, number>();
+  const neighbors = new Map<string, { up: string[]; down: string[] }>();
+  edges.forEach(([source, target]) => {
+    if (!neighbors.has(source)) neighbors.set(source, { up: [], down: [] });
+    if (!neighbors.has(target)) neighbors.set(target, { up: [], down: [] });
+    neighbors.get(source)!.down.push(target);
+    neighbors.get(target)!.up.push(source);
+  });
+
+  layers.forEach((layer) => {
+    const nodes = layer.map((id) => context.layoutNodes.get(id)!);
+    let cursor = 0;
+    const packed = nodes.map((node, index) => {
+      if (index > 0) cursor += getSeparation(context, nodes[index - 1], node);
+      return cursor;
+    });
+    packed.forEach((center, index) => {
+      centers.set(layer[index], center - cursor / 2);
+    });
+  });
+
+  for (let sweep = 0; sweep < COORDINATE_SWEEPS; sweep++) {
+    const downward = sweep % 2 === 0;
+    const rankOrder = layers.map((_, index) => index);
+    if (!downward) rankOrder.reverse();
+
+    rankOrder.forEach((rank) => {
+      const layer = layers[rank];
+      const desired = layer.map((id) => {
+        const linked = downward
+          ? neighbors.get(id)?.up
+          : neighbors.get(id)?.down;
+        if (!linked || linked.length === 0) return centers.get(id)!;
+        return (
+          linked.reduce((sum, other) => sum + centers.get(other)!, 0) /
+          linked.length
+        );
+      });
+
+      placeLayer(context, layer, desired).forEach((center, index) => {
+        centers.set(layer[index], center);
+      });
+    });
+  }
+
+  return centers;
+};
+
+const layoutLayered = (
+  context: LayoutContext,
+  nodeIds: string[],
+  edges: Array<[string, string]>
+) => {
+  const acyclicEdges = breakCycles(nodeIds, edges);
+  const ranks = assignRanks(nodeIds, acyclicEdges);
+
+  // Long edges are split by dummy nodes so every edge spans exactly one rank
+  const layerEdges: Array<[string, string]> = [];
+  acyclicEdges.forEach(([source, target], edgeIndex) => {
+    let previous = source;
+    for (let rank = ranks.get(source)! + 1; rank < ranks.get(target)!; rank++) {
+      const dummyId = `dummy:${edgeIndex}:${rank}`;
+      context.layoutNodes.set(dummyId, {
+        id: dummyId,
+        rankSize: 0,
+        orderSize: 0,
+        isDummy: true,
+      });
+      ranks.set(dummyId, rank);
+      layerEdges.push([previous, dummyId]);
+      previous = dummyId;
+    }
+    layerEdges.push([previous, target]);
+  });
+
+  const layers: string[][] = [];
+  context.layoutNodes.forEach((node) => {
+    const rank = ranks.get(node.id)!;
+    layers[rank] = [...(layers[rank] ?? []), node.id];
+  });
+
+  const orderedLayers = reduceCrossings(
+    layers.map((layer) => layer ?? []),
+    layerEdges
+  );
+  const centers = assignOrderCoordinates(context, orderedLayers, layerEdges);
+
+  return { ranks, centers };
+};
+
+// Tidy tree: children are stacked under their parent, which is centered on them
+const layoutTree = (
+  context: LayoutContext,
+  nodeIds: string[],
+  edges: Array<[string, string]>
+) => {
+  const children = new Map<string, string[]>();
+  const hasParent = new Set<string>();
+  edges.forEach(([source, target]) => {
+    children.set(source, [...(children.get(source) ?? []), target]);
+    hasParent.add(target);
+  });
+
+  const ranks = new Map<string, number>();
+  const centers = new Map<string, number>();
+  let cursor = 0;
+
+  const shiftSubtree = (nodeId: string, delta: number) => {
+    centers.set(nodeId, centers.get(nodeId)! + delta);
+    (children.get(nodeId) ?? []).forEach((child) => {
+      if (ranks.get(child) === ranks.get(nodeId)! + 1) {
+        shiftSubtree(child, delta);
+      }
+    });
+  };
+
+  const place = (nodeId: string, rank: number) => {
+    const node = context.layoutNodes.get(nodeId)!;
+    const start = cursor;
+    ranks.set(nodeId, rank);
+
+    const placedChildren = (children.get(nodeId) ?? []).filter((child) => {
+      if (ranks.has(child)) return false;
+      place(child, rank + 1);
+      return true;
+    });
+
+    if (placedChildren.length === 0) {
+      centers.set(nodeId, cursor + node.orderSize / 2);
+    } else {
+      const first = centers.get(placedChildren[0])!;
+      const last = centers.get(placedChildren[placedChildren.length - 1])!;
+      centers.set(nodeId, (first + last) / 2);
+
+      // Keep a parent larger than its children clear of the previous subtree
+      const overlap = start - (centers.get(nodeId)! - node.orderSize / 2);
+      if (overlap > 0) shiftSubtree(nodeId, overlap);
+    }
+
+    cursor = Math.max(
+      cursor,
+      centers.get(nodeId)! + node.orderSize / 2 + context.nodeSpacing
+    );
+  };
+
+  nodeIds
+    .filter((nodeId) => !hasParent.has(nodeId))
+    .forEach((root) => place(root, 0));
+  // Nodes only reachable through a cycle have no root, start from any of them
+  nodeIds.forEach((nodeId) => {
+    if (!ranks.has(nodeId)) place(nodeId, 0);
+  });
+
+  return { ranks, centers };
+};
+
+/**
+ * Computes new positions for the given nodes, considering only the edges
+ * between them. The result keeps the top-left corner of the nodes' current
+ * bounding box, so laying out a selection leaves it where it was.
+ */
+export const computeLayout = (
+  nodes: Node[],
+  edges: Edge[],
+  options: LayoutOptions = {}
+): Record<string, Position> => {
+  if (nodes.length === 0) return {};
+
+  const {
+    direction = "LR",
+    mode = "auto",
+    nodeSpacing = 40,
+    rankSpacing = 120,
+    getNodeSize = getDefaultNodeSize,
+  } = options;
+  const horizontal = direction === "LR" || direction === "RL";
+  const reversed = direction === "RL" || direction === "BT";
+
+  // Keep the current arrangement as the starting order within each rank
+  const sortedNodes = [...nodes].sort((a, b) =>
+    horizontal ? a.position.y - b.position.y : a.position.x - b.position.x
+  );
+  const nodeIds = sortedNodes.map((node) => node.id);
+  const layoutEdges = getLayoutEdges(new Set(nodeIds), edges);
+
+  const context: LayoutContext = {
+    layoutNodes: new Map(),
+    nodeSpacing,
+    rankSpacing,
+  };
+  sortedNodes.forEach((node) => {
+    const size = getNodeSize(node);
+    context.layoutNodes.set(node.id, {
+      id: node.id,
+      rankSize: horizontal ? size.width : size.height,
+      orderSize: horizontal ? size.height : size.width,
+      isDummy: false,
+    });
+  });
+
+  const isTree = layoutEdges.every(
+    ([, target], index) =>
+      layoutEdges.findIndex(([, other]) => other === target) === index
+  );
+  const { ranks, centers } =
+    mode === "tree" || (mode === "auto" && isTree)
+      ? layoutTree(context, nodeIds, layoutEdges)
+      : layoutLayered(context, nodeIds, layoutEdges);
+
+  // Ranks are as thick as their largest node
+  const rankSizes: number[] = [];
+  nodeIds.forEach((nodeId) => {
+    const rank = ranks.get(nodeId)!;
+    rankSizes[rank] = Math.max(
+      rankSizes[rank] ?? 0,
+      context.layoutNodes.get(nodeId)!.rankSize
+    );
+  });
+  const rankStarts: number[] = [];
+  rankSizes.forEach((_, rank) => {
+    rankStarts[rank] =
+      rank === 0
+        ? 0
+        : rankStarts[rank - 1] + (rankSizes[rank - 1] ?? 0) + rankSpacing;
+  });
+
+  const positions: Record<string, Position> = {};
+  nodeIds.forEach((nodeId) => {
+    const layoutNode = context.layoutNodes.get(nodeId)!;
+    const rankStart = rankStarts[ranks.get(nodeId)!];
+    const rankCoordinate = reversed
+      ? -(rankStart + layoutNode.rankSize)
+      : rankStart;
+    const orderCoordinate = centers.get(nodeId)! - layoutNode.orderSize / 2;
+
+    positions[nodeId] = horizontal
+      ? { x: rankCoordinate, y: orderCoordinate }
+      : { x: orderCoordinate, y: rankCoordinate };
+  });
+
+  // Anchor the result at the current top-left corner of the nodes
+  const layoutPositions = Object.values(positions);
+  const deltaX =
+    Math.min(...nodes.map((node) => node.position.x)) -
+    Math.min(...layoutPositions.map((position) => position.x));
+  const deltaY =
+    Math.min(...nodes.map((node) => node.position.y)) -
+    Math.min(...layoutPositions.map((position) => position.y));
+  layoutPositions.forEach((position) => {
+    position.x += deltaX;
+    position.y += deltaY;
+  });
+
+  return positions;
+};
+
+/** Lays out the whole graph, or only the given nodes */
+export const layoutGraph = (
+  graph: Graph,
+  options: LayoutOptions = {},
+  nodeIds?: string[]
+): Graph => {
+  const nodeIdSet = nodeIds ? new Set(nodeIds) : null;
+  const positions = computeLayout(
+    nodeIdSet
+      ? graph.nodes.filter((node) => nodeIdSet.has(node.id))
+      : graph.nodes,
+    graph.edges,
+    options
+  );
+
+  return {
+    ...graph,
+    nodes: graph.nodes.map((node) =>
+      positions[node.id] ? { ...node, position: positions[node.id] } : node
+    ),
+  };
+};
@@ -0,0 +1,22 @@
+import type { Note, Position, Size } from "../types/graph";
+import { generateId } from "./graph";
+
+export const DEFAULT_NOTE_SIZE: Size = { width: 220, height: 140 };
+export const MIN_NOTE_SIZE: Size = { width: 80, height: 48 };
+export const DEFAULT_NOTE_COLOR = "#fef3c7";
+
+export const createNote = (
+  position: Position,
+  options?: Partial<Pick<Note, "text" | "size" | "color">>
+): Note => ({
+  id: generateId(),
+  position,
+  size: options?.size ?? DEFAULT_NOTE_SIZE,
+  text: options?.text ?? "",
+  color: options?.color,
+});
+
+export const clampNoteSize = (size: Size): Size => ({
+  width: Math.max(MIN_NOTE_SIZE.width, size.width),
+  height: Math.max(MIN_NOTE_SIZE.height, size.height),
+});
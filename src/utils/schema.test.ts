@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { getDefaultPayload, validatePayload } from "./schema";
+import type { ObjectPayloadSchema } from "../types/graph";
+
+const schema: ObjectPayloadSchema = {
+  type: "object",
+  required: ["model"],
+  properties: {
+    model: { type: "string", enum: ["yolo", "detr"], default: "yolo" },
+    threshold: { type: "number", minimum: 0, maximum: 1, default: 0.5 },
+    batchSize: { type: "integer" },
+    classes: { type: "array", items: { type: "string" }, default: ["car"] },
+    output: {
+      type: "object",
+      properties: { format: { type: "string", default: "json" } },
+    },
+  },
+};
+
+describe("getDefaultPayload", () => {
+  it("collects the defaults of every property", () => {
+    expect(getDefaultPayload(schema)).toEqual({
+      model: "yolo",
+      threshold: 0.5,
+      classes: ["car"],
+      output: { format: "json" },
+    });
+  });
+
+  it("never shares default objects between payloads", () => {
+    expect(getDefaultPayload(schema).classes).not.toBe(
+      getDefaultPayload(schema).classes
+    );
+  });
+
+  it("is empty without a schema", () => {
+    expect(getDefaultPayload()).toEqual({});
+  });
+});
+
+describe("validatePayload", () => {
+  it("accepts a valid payload", () => {
+    expect(validatePayload(getDefaultPayload(schema), schema)).toEqual({});
+  });
+
+  it("reports errors by field path", () => {
+    expect(
+      validatePayload(
+        {
+          threshold: 2,
+          batchSize: 1.5,
+          classes: ["car", ""],
+          output: { format: 1 },
+        },
+        schema
+      )
+    ).toEqual({
+      model: "Required",
+      threshold: "Must be at most 1",
+      batchSize: "Must be a whole number",
+      "classes.1": "Required",
+      "output.format": "Must be text",
+    });
+  });
+
+  it("checks enum values", () => {
+    expect(validatePayload({ model: "rcnn" }, schema)).toEqual({
+      model: "Must be one of: yolo, detr",
+    });
+  });
+
+  it("checks patterns", () => {
+    const patternSchema: ObjectPayloadSchema = {
+      type: "object",
+      properties: { code: { type: "string", pattern: "^[A-Z]+$" } },
+    };
+
+    expect(validatePayload({ code: "ABC" }, patternSchema)).toEqual({});
+    expect(validatePayload({ code: "abc" }, patternSchema)).toEqual({
+      code: "Must match ^[A-Z]+$",
+    });
+  });
+
+  it("reports an invalid pattern instead of throwing", () => {
+    const patternSchema: ObjectPayloadSchema = {
+      type: "object",
+      properties: { code: { type: "string", pattern: "[A-Z" } },
+    };
+
+    expect(validatePayload({ code: "ABC" }, patternSchema)).toEqual({
+      code: "Has an invalid pattern: [A-Z",
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import type { ObjectPayloadSchema, PayloadSchema } from "../types/graph";
+
+/** Error messages keyed by field path, e.g. "filters.0.name" */
+export type PayloadErrors = Record<string, string>;
+
+export const isPlainObject = (
+  value: unknown
+): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/** Unset fields, which only fail validation when required */
+export const isEmptyValue = (value: unknown) =>
+  value === undefined || value === null || value === "";
+
+export const joinPath = (path: string, key: string | number) =>
+  path ? `${path}.${key}` : String(key);
+
+/** Value of a new field: its default, or its properties' defaults */
+export const getSchemaDefault = (schema: PayloadSchema): unknown => {
+  // Cloned so nodes never share a default object or array
+  if (schema.default !== undefined) return structuredClone(schema.default);
+  if (schema.type === "object") return getDefaultPayload(schema);
+  return undefined;
+};
+
+/** Payload of a new node, {} without a schema */
+export const getDefaultPayload = (
+  schema?: ObjectPayloadSchema
+): Record<string, unknown> => {
+  if (!schema) return {};
+  if (schema.default) return structuredClone(schema.default);
+
+  const payload: Record<string, unknown> = {};
+  Object.entries(schema.properties).forEach(([key, property]) => {
+    const value = getSchemaDefault(property);
+    if (value !== undefined) {
+      payload[key] = value;
+    }
+  });
+  return payload;
+};
+
+// A malformed pattern in the schema is reported on the field, not thrown
+const getPatternError = (value: string, pattern: string) => {
+  try {
+    return new RegExp(pattern).test(value) ? null : `Must match ${pattern}`;
+  } catch {
+    return `Has an invalid pattern: ${pattern}`;
+  }
+};
+
+const getValueError = (
+  value: unknown,
+  schema: PayloadSchema
+): string | null => {
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") return "Must be text";
+      if (schema.enum && !schema.enum.includes(value)) {
+        return `Must be one of: ${schema.enum.join(", ")}`;
+      }
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        return `Must be at least ${schema.minLength} characters`;
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        return `Must be at most ${schema.maxLength} characters`;
+      }
+      if (schema.pattern) {
+        return getPatternError(value, schema.pattern);
+      }
+      return null;
+
+    case "number":
+    case "integer":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return "Must be a number";
+      }
+      if (schema.type === "integer" && !Number.isInteger(value)) {
+        return "Must be a whole number";
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return `Must be one of: ${schema.enum.join(", ")}`;
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return `Must be at least ${schema.minimum}`;
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        return `Must be at most ${schema.maximum}`;
+      }
+      return null;
+
+    case "boolean":
+      return typeof value === "boolean" ? null : "Must be true or false";
+
+    case "array":
+      if (!Array.isArray(value)) return "Must be a list";
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        return `Needs at least ${schema.minItems} items`;
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        return `Allows at most ${schema.maxItems} items`;
+      }
+      return null;
+
+    case "object":
+      return isPlainObject(value) ? null : "Must be an object";
+  }
+};
+
+const collectErrors = (
+  value: unknown,
+  schema: PayloadSchema,
+  path: string,
+  errors: PayloadErrors
+) => {
+  const error = getValueError(value, schema);
+  if (error) {
+    errors[path] = error;
+    return;
+  }
+
+  if (schema.type === "array" && Array.isArray(value)) {
+    value.forEach((item, index) => {
+      const itemPath = joinPath(path, index);
+      if (isEmptyValue(item)) {
+        errors[itemPath] = "Required";
+      } else {
+        collectErrors(item, schema.items, itemPath, errors);
+      }
+    });
+  } else if (schema.type === "object" && isPlainObject(value)) {
+    Object.entries(schema.properties).forEach(([key, property]) => {
+      const propertyPath = joinPath(path, key);
+      if (!isEmptyValue(value[key])) {
+        collectErrors(value[key], property, propertyPath, errors);
+      } else if (schema.required?.includes(key)) {
+        errors[propertyPath] = "Required";
+      }
+    });
+  }
+};
+
+/** Errors of every invalid field, empty when the payload is valid */
+export const validatePayload = (
+  payload: Record<string, unknown>,
+  schema: ObjectPayloadSchema
+): PayloadErrors => {
+  const errors: PayloadErrors = {};
+  collectErrors(payload, schema, "", errors);
+  return errors;
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { getAlignmentSnap, snapToGrid } from "./snap";
+
+describe("snapToGrid", () => {
+  it("rounds to the nearest grid line", () => {
+    expect(snapToGrid(29, 20)).toBe(20);
+    expect(snapToGrid(31, 20)).toBe(40);
+    expect(snapToGrid(-11, 20)).toBe(-20);
+  });
+
+  it("leaves the value alone without a grid", () => {
+    expect(snapToGrid(31, 0)).toBe(31);
+  });
+});
+
+describe("getAlignmentSnap", () => {
+  const target = { x: 100, y: 0, width: 100, height: 50 };
+
+  it("snaps an axis within the threshold and draws its guides", () => {
+    const { offset, guides } = getAlignmentSnap(
+      { x: 103, y: 500, width: 100, height: 50 },
+      [target],
+      6
+    );
+
+    expect(offset).toEqual({ x: -3, y: undefined });
+    expect(guides).toEqual(
+      [100, 150, 200].map((position) => ({
+        orientation: "vertical",
+        position,
+        start: 0,
+        end: 550,
+      }))
+    );
+  });
+
+  it("ignores targets beyond the threshold", () => {
+    const { offset, guides } = getAlignmentSnap(
+      { x: 110, y: 500, width: 100, height: 50 },
+      [target],
+      6
+    );
+
+    expect(offset).toEqual({ x: undefined, y: undefined });
+    expect(guides).toEqual([]);
+  });
+
+  it("takes the closest line, including centers", () => {
+    const { offset, guides } = getAlignmentSnap(
+      { x: 0, y: 0, width: 60, height: 50 },
+      [
+        { x: -18, y: 200, width: 100, height: 50 },
+        { x: 4, y: 300, width: 200, height: 50 },
+      ],
+      6
+    );
+
+    expect(offset.x).toBe(2);
+    expect(guides.filter((guide) => guide.orientation === "vertical")).toEqual([
+      { orientation: "vertical", position: 32, start: 0, end: 250 },
+    ]);
+  });
+});
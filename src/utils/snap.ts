@@ -0,0 +1,124 @@
+import type { Position, Rect } from "../types/graph";
+
+export const DEFAULT_GRID_SIZE = 20;
+export const DEFAULT_SNAP_THRESHOLD = 6;
+
+export interface SnapOptions {
+  /** Snaps dragged nodes to the background grid (default: false) */
+  snapToGrid: boolean;
+  /** Grid spacing in world pixels, also used by the background (default: 20) */
+  gridSize: number;
+  /** Shows guides and snaps to other nodes while dragging (default: true) */
+  alignmentGuides: boolean;
+  /** Screen distance in pixels within which a node snaps to a guide */
+  snapThreshold: number;
+}
+
+export const DEFAULT_SNAP_OPTIONS: SnapOptions = {
+  snapToGrid: false,
+  gridSize: DEFAULT_GRID_SIZE,
+  alignmentGuides: true,
+  snapThreshold: DEFAULT_SNAP_THRESHOLD,
+};
+
+/** Line drawn where the dragged nodes line up with other nodes */
+export interface AlignmentGuide {
+  orientation: "vertical" | "horizontal";
+  /** x of a vertical guide, y of a horizontal one */
+  position: number;
+  /** Extent of the line, covering every aligned node */
+  start: number;
+  end: number;
+}
+
+export const snapToGrid = (value: number, gridSize: number) =>
+  gridSize > 0 ? Math.round(value / gridSize) * gridSize : value;
+
+type Axis = "x" | "y";
+
+const getAxisRange = (rect: Rect, axis: Axis) =>
+  axis === "x"
+    ? { start: rect.x, size: rect.width }
+    : { start: rect.y, size: rect.height };
+
+// Start, center and end line of a rect along one axis
+const getAxisLines = (rect: Rect, axis: Axis) => {
+  const { start, size } = getAxisRange(rect, axis);
+  return [start, start + size / 2, start + size];
+};
+
+// Smallest shift that puts one of the lines of rect onto a line of a target
+const findAxisDelta = (
+  rect: Rect,
+  targets: Rect[],
+  axis: Axis,
+  threshold: number
+): number | undefined => {
+  const lines = getAxisLines(rect, axis);
+
+  let delta: number | undefined;
+  targets.forEach((target) => {
+    getAxisLines(target, axis).forEach((targetLine) => {
+      lines.forEach((line) => {
+        const distance = targetLine - line;
+        if (
+          Math.abs(distance) <= threshold &&
+          (delta === undefined || Math.abs(distance) < Math.abs(delta))
+        ) {
+          delta = distance;
+        }
+      });
+    });
+  });
+  return delta;
+};
+
+const getAxisGuides = (
+  rect: Rect,
+  targets: Rect[],
+  axis: Axis
+): AlignmentGuide[] => {
+  // Lines along x are vertical, they extend over the y range of the nodes
+  const crossAxis: Axis = axis === "x" ? "y" : "x";
+  const guides: AlignmentGuide[] = [];
+
+  getAxisLines(rect, axis).forEach((position) => {
+    const aligned = targets.filter((target) =>
+      getAxisLines(target, axis).some((line) => Math.abs(line - position) < 0.5)
+    );
+    if (aligned.length === 0) return;
+
+    const ranges = [rect, ...aligned].map((r) => getAxisRange(r, crossAxis));
+    guides.push({
+      orientation: axis === "x" ? "vertical" : "horizontal",
+      position,
+      start: Math.min(...ranges.map((range) => range.start)),
+      end: Math.max(...ranges.map((range) => range.start + range.size)),
+    });
+  });
+
+  return guides;
+};
+
+/**
+ * Finds the smallest shift per axis that lines up an edge or the center of
+ * `rect` with one of `targets`. Axes without a target within `threshold`
+ * are left undefined.
+ */
+export const getAlignmentSnap = (
+  rect: Rect,
+  targets: Rect[],
+  threshold: number
+): { offset: Partial<Position>; guides: AlignmentGuide[] } => {
+  const x = findAxisDelta(rect, targets, "x", threshold);
+  const y = findAxisDelta(rect, targets, "y", threshold);
+  const snapped = { ...rect, x: rect.x + (x ?? 0), y: rect.y + (y ?? 0) };
+
+  return {
+    offset: { x, y },
+    guides: [
+      ...(x !== undefined ? getAxisGuides(snapped, targets, "x") : []),
+      ...(y !== undefined ? getAxisGuides(snapped, targets, "y") : []),
+    ],
+  };
+};
@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from "vitest";
+import { isSameDiagnostics, validateGraph } from "./validation";
+import type { Graph, NodeTypeConfig } from "../types/graph";
+import {
+  createTestEdge,
+  createTestGraph,
+  createTestNode,
+} from "../test/fixtures";
+
+const nodeTypeConfigMap = new Map<string, NodeTypeConfig>([
+  ["source", { id: "source", label: "Source", color: "#000" }],
+  [
+    "sink",
+    {
+      id: "sink",
+      label: "Sink",
+      color: "#000",
+      inputs: [{ id: "frames", required: true }],
+      payloadSchema: {
+        type: "object",
+        properties: { path: { type: "string" } },
+        required: ["path"],
+      },
+    },
+  ],
+]);
+
+const getCodes = (graph: Graph) =>
+  validateGraph(graph, nodeTypeConfigMap).map((diagnostic) => diagnostic.code);
+
+describe("validateGraph", () => {
+  it("reports nothing for a valid graph", () => {
+    const graph = createTestGraph({
+      nodes: [
+        createTestNode("a"),
+        createTestNode("b", { type: "sink", payload: { path: "out.mp4" } }),
+      ],
+      edges: [createTestEdge("a", "b", { targetPortId: "frames" })],
+    });
+
+    expect(validateGraph(graph, nodeTypeConfigMap)).toEqual([]);
+  });
+
+  it("reports unknown types, missing inputs and invalid payloads", () => {
+    const graph = createTestGraph({
+      nodes: [
+        createTestNode("a", { type: "camera" }),
+        createTestNode("b", { type: "sink" }),
+      ],
+    });
+
+    expect(getCodes(graph)).toEqual([
+      "unknown-type",
+      "missing-input",
+      "invalid-payload",
+      "orphan-node",
+      "orphan-node",
+    ]);
+  });
+
+  it("reports edges to missing ports and extra single inputs", () => {
+    const graph = createTestGraph({
+      nodes: [createTestNode("a"), createTestNode("b"), createTestNode("c")],
+      edges: [
+        createTestEdge("a", "c"),
+        createTestEdge("b", "c"),
+        createTestEdge("a", "b", { sourcePortId: "missing" }),
+      ],
+    });
+
+    expect(getCodes(graph)).toEqual(["invalid-edge", "input-limit"]);
+  });
+
+  it("reports cycles without a start node as unreachable", () => {
+    const graph = createTestGraph({
+      nodes: [createTestNode("a"), createTestNode("b")],
+      edges: [createTestEdge("a", "b"), createTestEdge("b", "a")],
+    });
+
+    expect(getCodes(graph)).toEqual(["unreachable-node", "unreachable-node"]);
+  });
+
+  it("skips a failing rule", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const rule = {
+      id: "broken",
+      validate: () => {
+        throw new Error("Broken");
+      },
+    };
+
+    expect(validateGraph(createTestGraph(), nodeTypeConfigMap, [rule])).toEqual(
+      []
+    );
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+});
+
+describe("isSameDiagnostics", () => {
+  it("compares diagnostics by value", () => {
+    const diagnostic = {
+      severity: "error" as const,
+      code: "unknown-type",
+      message: "Unknown",
+      nodeId: "a",
+    };
+
+    expect(isSameDiagnostics([diagnostic], [{ ...diagnostic }])).toBe(true);
+    expect(
+      isSameDiagnostics([diagnostic], [{ ...diagnostic, nodeId: "b" }])
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,279 @@
+import type { Graph, GraphDiagnostic, NodeTypeConfig } from "../types/graph";
+import {
+  getEdgeSourcePortId,
+  getEdgeTargetPortId,
+  getNodeTypePorts,
+} from "./graph";
+import { validatePayload } from "./schema";
+
+export interface ValidationContext {
+  graph: Graph;
+  nodeTypeConfigMap: Map<string, NodeTypeConfig>;
+}
+
+/** Named check over the whole graph, returning the problems it finds */
+export interface ValidationRule {
+  id: string;
+  validate: (context: ValidationContext) => GraphDiagnostic[];
+}
+
+export const unknownTypeRule: ValidationRule = {
+  id: "unknown-type",
+  validate: ({ graph, nodeTypeConfigMap }) => {
+    const diagnostics: GraphDiagnostic[] = [];
+    graph.nodes.forEach((node) => {
+      if (!nodeTypeConfigMap.has(node.type)) {
+        diagnostics.push({
+          severity: "error",
+          code: "unknown-type",
+          nodeId: node.id,
+          message: `Unknown node type "${node.type}"`,
+        });
+      }
+    });
+    return diagnostics;
+  },
+};
+
+/** Edges between missing nodes or ports */
+export const invalidEdgeRule: ValidationRule = {
+  id: "invalid-edge",
+  validate: ({ graph, nodeTypeConfigMap }) => {
+    const diagnostics: GraphDiagnostic[] = [];
+    const nodeMap = new Map(graph.nodes.map((node) => [node.id, node]));
+    const report = (edgeId: string, message: string) =>
+      diagnostics.push({
+        severity: "error",
+        code: "invalid-edge",
+        edgeId,
+        message,
+      });
+
+    graph.edges.forEach((edge) => {
+      const sourceNode = nodeMap.get(edge.sourceNodeId);
+      const targetNode = nodeMap.get(edge.targetNodeId);
+      if (!sourceNode || !targetNode) {
+        report(edge.id, "Connects a node that doesn't exist");
+        return;
+      }
+
+      const sourceTypeConfig = nodeTypeConfigMap.get(sourceNode.type);
+      const sourcePortId = getEdgeSourcePortId(edge);
+      if (
+        sourceTypeConfig &&
+        !getNodeTypePorts(sourceTypeConfig).outputs.some(
+          (port) => port.id === sourcePortId
+        )
+      ) {
+        report(edge.id, `Unknown output port "${sourcePortId}"`);
+      }
+
+      const targetTypeConfig = nodeTypeConfigMap.get(targetNode.type);
+      const targetPortId = getEdgeTargetPortId(edge);
+      if (
+        targetTypeConfig &&
+        !getNodeTypePorts(targetTypeConfig).inputs.some(
+          (port) => port.id === targetPortId
+        )
+      ) {
+        report(edge.id, `Unknown input port "${targetPortId}"`);
+      }
+    });
+    return diagnostics;
+  },
+};
+
+/** Extra edges into inputs that accept a single connection */
+export const inputLimitRule: ValidationRule = {
+  id: "input-limit",
+  validate: ({ graph, nodeTypeConfigMap }) => {
+    const diagnostics: GraphDiagnostic[] = [];
+    const nodeMap = new Map(graph.nodes.map((node) => [node.id, node]));
+    const connectedInputs = new Set<string>();
+
+    graph.edges.forEach((edge) => {
+      const targetNode = nodeMap.get(edge.targetNodeId);
+      if (!targetNode) return;
+
+      const targetPortId = getEdgeTargetPortId(edge);
+      const port = getNodeTypePorts(
+        nodeTypeConfigMap.get(targetNode.type)
+      ).inputs.find((input) => input.id === targetPortId);
+      const key = `${targetNode.id}:${targetPortId}`;
+
+      if (
+        connectedInputs.has(key) &&
+        !(port?.allowMultiple ?? targetNode.allowMultipleInputs)
+      ) {
+        const label = port?.label ?? targetPortId;
+        diagnostics.push({
+          severity: "error",
+          code: "input-limit",
+          edgeId: edge.id,
+          message: `Input "${label}" accepts a single connection`,
+        });
+      }
+      connectedInputs.add(key);
+    });
+    return diagnostics;
+  },
+};
+
+/** Required input ports without a connection */
+export const missingInputRule: ValidationRule = {
+  id: "missing-input",
+  validate: ({ graph, nodeTypeConfigMap }) => {
+    const diagnostics: GraphDiagnostic[] = [];
+    const connectedInputs = new Set(
+      graph.edges.map(
+        (edge) => `${edge.targetNodeId}:${getEdgeTargetPortId(edge)}`
+      )
+    );
+
+    graph.nodes.forEach((node) => {
+      const nodeTypeConfig = nodeTypeConfigMap.get(node.type);
+      nodeTypeConfig?.inputs?.forEach((port) => {
+        if (port.required && !connectedInputs.has(`${node.id}:${port.id}`)) {
+          const label = port.label ?? port.id;
+          diagnostics.push({
+            severity: "error",
+            code: "missing-input",
+            nodeId: node.id,
+            message: `Required input "${label}" is not connected`,
+          });
+        }
+      });
+    });
+    return diagnostics;
+  },
+};
+
+/** Payloads that don't match their node type's payloadSchema */
+export const invalidPayloadRule: ValidationRule = {
+  id: "invalid-payload",
+  validate: ({ graph, nodeTypeConfigMap }) => {
+    const diagnostics: GraphDiagnostic[] = [];
+    graph.nodes.forEach((node) => {
+      const schema = nodeTypeConfigMap.get(node.type)?.payloadSchema;
+      if (!schema) return;
+
+      Object.entries(validatePayload(node.payload, schema)).forEach(
+        ([path, message]) => {
+          diagnostics.push({
+            severity: "error",
+            code: "invalid-payload",
+            nodeId: node.id,
+            message: `${path}: ${message}`,
+          });
+        }
+      );
+    });
+    return diagnostics;
+  },
+};
+
+/** Nodes without any connection, in graphs of more than one node */
+export const orphanNodeRule: ValidationRule = {
+  id: "orphan-node",
+  validate: ({ graph }) => {
+    if (graph.nodes.length < 2) return [];
+
+    const connectedNodeIds = new Set(
+      graph.edges.flatMap((edge) => [edge.sourceNodeId, edge.targetNodeId])
+    );
+    const diagnostics: GraphDiagnostic[] = [];
+    graph.nodes.forEach((node) => {
+      if (!connectedNodeIds.has(node.id)) {
+        diagnostics.push({
+          severity: "warning",
+          code: "orphan-node",
+          nodeId: node.id,
+          message: "Not connected to any other node",
+        });
+      }
+    });
+    return diagnostics;
+  },
+};
+
+/**
+ * Nodes no start node (one without inputs connected) leads to. Only cycles
+ * without an entry point are left unvisited.
+ */
+export const unreachableNodeRule: ValidationRule = {
+  id: "unreachable-node",
+  validate: ({ graph }) => {
+    const nodeIds = new Set(graph.nodes.map((node) => node.id));
+    const targetsBySource = new Map<string, string[]>();
+    const targetNodeIds = new Set<string>();
+    graph.edges.forEach((edge) => {
+      if (!nodeIds.has(edge.sourceNodeId) || !nodeIds.has(edge.targetNodeId)) {
+        return;
+      }
+      const targets = targetsBySource.get(edge.sourceNodeId) ?? [];
+      targets.push(edge.targetNodeId);
+      targetsBySource.set(edge.sourceNodeId, targets);
+      targetNodeIds.add(edge.targetNodeId);
+    });
+
+    const visited = new Set<string>();
+    const queue = [...nodeIds].filter((nodeId) => !targetNodeIds.has(nodeId));
+    while (queue.length > 0) {
+      const nodeId = queue.shift()!;
+      if (visited.has(nodeId)) continue;
+      visited.add(nodeId);
+      queue.push(...(targetsBySource.get(nodeId) ?? []));
+    }
+
+    const diagnostics: GraphDiagnostic[] = [];
+    graph.nodes.forEach((node) => {
+      if (!visited.has(node.id)) {
+        diagnostics.push({
+          severity: "warning",
+          code: "unreachable-node",
+          nodeId: node.id,
+          message: "Not reachable from any start node",
+        });
+      }
+    });
+    return diagnostics;
+  },
+};
+
+export const DEFAULT_VALIDATION_RULES: ValidationRule[] = [
+  unknownTypeRule,
+  invalidEdgeRule,
+  inputLimitRule,
+  missingInputRule,
+  invalidPayloadRule,
+  orphanNodeRule,
+  unreachableNodeRule,
+];
+
+/** Runs every rule, a failing rule is logged and reports nothing */
+export const validateGraph = (
+  graph: Graph,
+  nodeTypeConfigMap: Map<string, NodeTypeConfig>,
+  rules: ValidationRule[] = DEFAULT_VALIDATION_RULES
+): GraphDiagnostic[] => {
+  const context: ValidationContext = { graph, nodeTypeConfigMap };
+  return rules.flatMap((rule) => {
+    try {
+      return rule.validate(context);
+    } catch (error) {
+      console.error(`Validation rule "${rule.id}" failed:`, error);
+      return [];
+    }
+  });
+};
+
+export const isSameDiagnostics = (a: GraphDiagnostic[], b: GraphDiagnostic[]) =>
+  a.length === b.length &&
+  a.every(
+    (diagnostic, index) =>
+      diagnostic.severity === b[index].severity &&
+      diagnostic.code === b[index].code &&
+      diagnostic.message === b[index].message &&
+      diagnostic.nodeId === b[index].nodeId &&
+      diagnostic.edgeId === b[index].edgeId
+  );
@@ -0,0 +1,65 @@
+import type { Position, Rect, Size, ViewState } from "../types/graph";
+
+export const MIN_ZOOM = 0.5;
+export const MAX_ZOOM = 2.0;
+
+export interface ViewportOptions {
+  /** Screen pixels kept free around the fitted nodes (default: 40) */
+  padding?: number;
+  /** Length of the animated transition in ms, 0 jumps (default: 300) */
+  duration?: number;
+  /** Zoom used when focusing a node (default: the current zoom) */
+  zoom?: number;
+}
+
+export const DEFAULT_VIEWPORT_PADDING = 40;
+export const DEFAULT_VIEWPORT_DURATION = 300;
+
+export const clampZoom = (zoom: number) =>
+  Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+
+// The canvas renders world points at (world + offset) * zoom
+export const getViewportCenter = (
+  viewState: ViewState,
+  viewportSize: Size
+): Position => ({
+  x: viewportSize.width / 2 / viewState.zoom - viewState.offset.x,
+  y: viewportSize.height / 2 / viewState.zoom - viewState.offset.y,
+});
+
+export const getViewStateForCenter = (
+  center: Position,
+  zoom: number,
+  viewportSize: Size
+): ViewState => ({
+  zoom,
+  offset: {
+    x: viewportSize.width / 2 / zoom - center.x,
+    y: viewportSize.height / 2 / zoom - center.y,
+  },
+});
+
+export const getViewStateForBounds = (
+  bounds: Rect,
+  viewportSize: Size,
+  padding = DEFAULT_VIEWPORT_PADDING
+): ViewState => {
+  const availableWidth = Math.max(1, viewportSize.width - padding * 2);
+  const availableHeight = Math.max(1, viewportSize.height - padding * 2);
+  const zoom = clampZoom(
+    Math.min(
+      availableWidth / Math.max(1, bounds.width),
+      availableHeight / Math.max(1, bounds.height)
+    )
+  );
+
+  return getViewStateForCenter(
+    { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 },
+    zoom,
+    viewportSize
+  );
+};
+
+// Ease-in-out so transitions start and stop gently
+export const easeInOutCubic = (t: number) =>
+  t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;